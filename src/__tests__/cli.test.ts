@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { runCli } from '../cli';
+
+describe('CLI', () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+  const content = 'console.log("hello from the command line");\n'.repeat(100);
+
+  beforeEach(() => {
+    testDir = path.join(process.cwd(), 'test-fixtures', `cli-${Date.now()}`);
+    fs.mkdirSync(path.join(testDir, 'assets'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'assets', 'app.js'), content);
+    fs.writeFileSync(path.join(testDir, 'assets', 'style.css'), content);
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should compress a directory with flags mapped to options', async () => {
+    const code = await runCli([testDir, '--type', 'brotli,gzip', '--min-size', '0', '--extensions', 'js', '--quiet']);
+
+    expect(code).toBe(0);
+    expect(fs.existsSync(path.join(testDir, 'assets', 'app.js.br'))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'assets', 'app.js.gz'))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'assets', 'style.css.br'))).toBe(false);
+  });
+
+  it('should load options from a config file and let flags override them', async () => {
+    const configPath = path.join(testDir, 'compress.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ type: 'gzip', minSize: 0, extensions: ['css'], verbose: false }));
+
+    const code = await runCli(['compress', testDir, '--config', configPath, '--type', 'brotli']);
+
+    expect(code).toBe(0);
+    expect(fs.existsSync(path.join(testDir, 'assets', 'style.css.br'))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'assets', 'style.css.gz'))).toBe(false);
+    expect(fs.existsSync(path.join(testDir, 'assets', 'app.js.br'))).toBe(false);
+  });
+
+  it('should write the default manifest for a bare --manifest flag', async () => {
+    const code = await runCli([testDir, '--manifest', '--min-size', '0', '--quiet']);
+    await runCli([testDir, '--min-size', '0', '--manifest=sizes.json', '--quiet']);
+
+    expect(code).toBe(0);
+    expect(fs.existsSync(path.join(testDir, 'compression-manifest.json'))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'sizes.json'))).toBe(true);
+  });
+
+  it('should list variants and ratios with inspect', async () => {
+    await runCli([testDir, '--min-size', '0', '--extensions', 'js', '--quiet']);
+    logSpy.mockClear();
+
+    const code = await runCli(['inspect', testDir, '--json']);
+    const rows = JSON.parse(logSpy.mock.calls[0][0]);
+
+    expect(code).toBe(0);
+    expect(rows.map((row: any) => row.file)).toEqual(['assets/app.js', 'assets/style.css']);
+    expect(rows[0].variants).toHaveLength(1);
+    expect(rows[0].variants[0]).toMatchObject({ encoding: 'brotli', path: 'assets/app.js.br' });
+    expect(rows[0].variants[0].ratio).toBeGreaterThan(0);
+    expect(rows[1].variants).toEqual([]);
+  });
+
+  it('should fail with a usage hint on invalid arguments', async () => {
+    expect(await runCli([testDir, '--type', 'lzma'])).toBe(1);
+    expect(await runCli([path.join(testDir, 'missing')])).toBe(1);
+    expect(await runCli(['inspect'])).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown compression type "lzma"'));
+  });
+});
@@ -1,7 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import fs from 'fs';
 import path from 'path';
-import brotliCompress from '../index';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import brotliCompress, { CompressionFileResult, CompressionProgress, CompressionType, compressDirectory } from '../index';
 
 // Helper function to create temporary test directory
 function createTestDir(): string {
@@ -159,6 +161,1316 @@ describe('Integration Tests', () => {
     });
   });
 
+  describe('Compression types', () => {
+    it('should write .br and .gz files for CompressionType.BOTH', async () => {
+      createTestFile(testDir, 'app.js', 'console.log("both"); '.repeat(100));
+
+      const plugin = brotliCompress({ 
+        type: CompressionType.BOTH,
+        extensions: ['js'], 
+        verbose: false,
+        minSize: 0
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      expect(fs.existsSync(path.join(testDir, 'app.js.br'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'app.js.gz'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'app.js.zst'))).toBe(false);
+    });
+
+    it.skipIf(typeof zlib.createZstdCompress !== 'function')('should write decodable .zst files', async () => {
+      const content = 'console.log("zstd"); '.repeat(100);
+      createTestFile(testDir, 'app.js', content);
+
+      const plugin = brotliCompress({ 
+        type: CompressionType.ZSTD,
+        extensions: ['js'], 
+        verbose: false,
+        minSize: 0
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      const compressed = fs.readFileSync(path.join(testDir, 'app.js.zst'));
+      expect(zlib.zstdDecompressSync(compressed).toString()).toBe(content);
+      expect(fs.existsSync(path.join(testDir, 'app.js.br'))).toBe(false);
+    });
+
+    it('should accept an array of compression types', async () => {
+      createTestFile(testDir, 'app.js', 'console.log("array"); '.repeat(100));
+
+      const plugin = brotliCompress({ 
+        type: [CompressionType.GZIP, CompressionType.BROTLI, CompressionType.GZIP],
+        extensions: ['js'], 
+        verbose: false,
+        minSize: 0
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      expect(fs.existsSync(path.join(testDir, 'app.js.br'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'app.js.gz'))).toBe(true);
+    });
+  });
+
+  describe('Compression manifest', () => {
+    it('should write compression-manifest.json describing each variant', async () => {
+      const content = 'console.log("manifest"); '.repeat(100);
+      fs.mkdirSync(path.join(testDir, 'assets'));
+      createTestFile(path.join(testDir, 'assets'), 'app.js', content);
+
+      const plugin = brotliCompress({ 
+        type: CompressionType.BOTH,
+        extensions: ['js'], 
+        quality: 9,
+        verbose: false,
+        minSize: 0,
+        manifest: true
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'compression-manifest.json'), 'utf-8'));
+      const entry = manifest.files['assets/app.js'];
+
+      expect(manifest.settings.encodings).toEqual(['br', 'gzip']);
+      expect(manifest.settings.quality).toBe(9);
+      expect(entry.size).toBe(content.length);
+      expect(entry.hash).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+      expect(entry.variants.br.path).toBe('assets/app.js.br');
+      expect(entry.variants.br.size).toBe(fs.statSync(path.join(testDir, 'assets/app.js.br')).size);
+      expect(entry.variants.gzip.ratio).toBeGreaterThan(0);
+    });
+
+    it('should use a custom manifest file name and skip compressing it', async () => {
+      createTestFile(testDir, 'app.js', 'console.log("manifest"); '.repeat(100));
+      createTestFile(testDir, 'sizes.json', JSON.stringify({ stale: true }).repeat(100));
+
+      const plugin = brotliCompress({ 
+        extensions: ['js', 'json'], 
+        verbose: false,
+        minSize: 0,
+        manifest: 'sizes.json'
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'sizes.json'), 'utf-8'));
+      expect(Object.keys(manifest.files)).toEqual(['app.js']);
+      expect(fs.existsSync(path.join(testDir, 'sizes.json.br'))).toBe(false);
+    });
+
+    it('should list files whose variants were all discarded with empty variants', async () => {
+      const random = crypto.randomBytes(2048);
+      fs.writeFileSync(path.join(testDir, 'noise.js'), random);
+      createTestFile(testDir, 'app.js', 'console.log("manifest"); '.repeat(100));
+
+      await compressDirectory(testDir, { type: CompressionType.BOTH, extensions: ['js'], verbose: false, minSize: 0, minRatio: 1, manifest: true });
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'compression-manifest.json'), 'utf-8'));
+      expect(Object.keys(manifest.files)).toEqual(['app.js', 'noise.js']);
+      expect(manifest.files['noise.js']).toMatchObject({ size: random.length, variants: {} });
+    });
+
+    it('should keep files skipped by skipExisting in the manifest', async () => {
+      const content = 'console.log("a"); '.repeat(100);
+      createTestFile(testDir, 'a.js', content);
+      createTestFile(testDir, 'b.js', 'console.log("b"); '.repeat(100));
+      const options = { extensions: ['js'], verbose: false, minSize: 0, manifest: true, skipExisting: true };
+
+      await compressDirectory(testDir, options);
+      const future = new Date(Date.now() + 10_000);
+      fs.utimesSync(createTestFile(testDir, 'b.js', 'console.log("b2"); '.repeat(100)), future, future);
+      const { stats } = await compressDirectory(testDir, options);
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'compression-manifest.json'), 'utf-8'));
+      expect(stats.compressedFiles).toBe(1);
+      expect(Object.keys(manifest.files)).toEqual(['a.js', 'b.js']);
+      expect(manifest.files['a.js'].hash).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+      expect(manifest.files['a.js'].variants.br.size).toBe(fs.statSync(path.join(testDir, 'a.js.br')).size);
+    });
+  });
+
+  describe('Worker pool', () => {
+    it('should produce decodable output from worker threads', async () => {
+      const contents = [1, 20, 5, 50, 2].map(n => `export const value${n} = ${n}; `.repeat(n * 100));
+      contents.forEach((content, i) => createTestFile(testDir, `chunk${i}.js`, content));
+
+      const plugin = brotliCompress({ 
+        type: CompressionType.BOTH,
+        extensions: ['js'], 
+        verbose: false,
+        minSize: 0,
+        maxParallel: 2
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      contents.forEach((content, i) => {
+        const br = fs.readFileSync(path.join(testDir, `chunk${i}.js.br`));
+        const gz = fs.readFileSync(path.join(testDir, `chunk${i}.js.gz`));
+        expect(zlib.brotliDecompressSync(br).toString()).toBe(content);
+        expect(zlib.gunzipSync(gz).toString()).toBe(content);
+      });
+    });
+
+    it('should report worker failures without hanging', async () => {
+      createTestFile(testDir, 'app.js', 'console.log("zstd"); '.repeat(100));
+
+      // Zstandard is unavailable in workers on Node.js versions before 22.15
+      const plugin = brotliCompress({ 
+        type: CompressionType.ZSTD,
+        extensions: ['js'], 
+        verbose: false,
+        minSize: 0
+      });
+      
+      (plugin.configResolved as any)(mockConfig);
+      await expect((plugin.closeBundle as any)()).resolves.not.toThrow();
+
+      const hasZstd = typeof zlib.zstdCompressSync === 'function';
+      expect(fs.existsSync(path.join(testDir, 'app.js.zst'))).toBe(hasZstd);
+    });
+  });
+
+  describe('Persistent cache', () => {
+    it('should restore unchanged files from the cache', async () => {
+      const cacheDir = path.join(testDir, '.cache');
+      createTestFile(testDir, 'app.js', 'console.log("cached"); '.repeat(100));
+
+      const options = { extensions: ['js'], verbose: false, minSize: 0, cache: cacheDir };
+
+      const first = brotliCompress(options);
+      (first.configResolved as any)(mockConfig);
+      await (first.closeBundle as any)();
+
+      const cached = fs.readdirSync(cacheDir);
+      expect(cached).toHaveLength(1);
+
+      // Replace the cache entry to prove the second build restores it instead of recompressing
+      fs.writeFileSync(path.join(cacheDir, cached[0]), 'from-cache');
+      fs.rmSync(path.join(testDir, 'app.js.br'));
+
+      const second = brotliCompress(options);
+      (second.configResolved as any)(mockConfig);
+      await (second.closeBundle as any)();
+
+      expect(fs.readFileSync(path.join(testDir, 'app.js.br'), 'utf-8')).toBe('from-cache');
+    });
+
+    it('should miss the cache when the quality changes', async () => {
+      const cacheDir = path.join(testDir, '.cache');
+      createTestFile(testDir, 'app.js', 'console.log("cached"); '.repeat(100));
+
+      for (const quality of [4, 9]) {
+        const plugin = brotliCompress({ extensions: ['js'], verbose: false, minSize: 0, quality, cache: cacheDir });
+        (plugin.configResolved as any)(mockConfig);
+        await (plugin.closeBundle as any)();
+      }
+
+      expect(fs.readdirSync(cacheDir)).toHaveLength(2);
+    });
+
+    it('should not skip stale variants with skipExisting', async () => {
+      const content = 'console.log("fresh"); '.repeat(100);
+      const filePath = createTestFile(testDir, 'app.js', content);
+      createTestFile(testDir, 'app.js.br', 'stale');
+
+      // Make the existing variant older than the original
+      const past = new Date(Date.now() - 60_000);
+      fs.utimesSync(path.join(testDir, 'app.js.br'), past, past);
+
+      const plugin = brotliCompress({ extensions: ['js'], verbose: false, minSize: 0, skipExisting: true });
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      const compressed = fs.readFileSync(`${filePath}.br`);
+      expect(zlib.brotliDecompressSync(compressed).toString()).toBe(content);
+    });
+  });
+
+  describe('compressDirectory', () => {
+    it('should compress a directory and return stats with per-file results', async () => {
+      const content = 'console.log("standalone"); '.repeat(100);
+      const filePath = createTestFile(testDir, 'app.js', content);
+      createTestFile(testDir, 'styles.css', 'body { margin: 0; } '.repeat(100));
+
+      const { stats, files } = await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0
+      });
+
+      expect(stats.totalFiles).toBe(1);
+      expect(stats.compressedFiles).toBe(2);
+      expect(files).toHaveLength(1);
+      expect(files[0].filePath).toBe(filePath);
+      expect(files[0].originalSize).toBe(content.length);
+      expect(files[0].variants.map(variant => variant.encoding)).toEqual([CompressionType.BROTLI, CompressionType.GZIP]);
+      expect(files[0].variants[0].path).toBe(`${filePath}.br`);
+      expect(files[0].variants[0].size).toBe(fs.statSync(`${filePath}.br`).size);
+    });
+
+    it('should measure the real compressed size of every variant', async () => {
+      const filePath = createTestFile(testDir, 'app.js', 'console.log("measured"); '.repeat(100));
+      createTestFile(testDir, 'styles.css', 'body { margin: 0; } '.repeat(100));
+
+      const { stats } = await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        minSize: 0
+      });
+
+      const writtenSize = fs.readdirSync(testDir)
+        .filter(name => name.endsWith('.br') || name.endsWith('.gz'))
+        .reduce((total, name) => total + fs.statSync(path.join(testDir, name)).size, 0);
+      expect(stats.totalCompressedSize).toBe(writtenSize);
+      expect(stats.compressionRatio).toBeCloseTo((1 - writtenSize / stats.totalOriginalSize) * 100);
+      expect(stats.compressionRatio).toBeLessThan(100);
+      expect(fs.statSync(`${filePath}.br`).size).toBeGreaterThan(0);
+    });
+
+    it('should pass per-file records to onFileCompressed', async () => {
+      const filePath = createTestFile(testDir, 'app.js', 'console.log("callback"); '.repeat(100));
+      const records: CompressionFileResult[] = [];
+
+      await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        minSize: 0,
+        onFileCompressed: file => records.push(file)
+      });
+
+      expect(records).toHaveLength(1);
+      expect(records[0].filePath).toBe(filePath);
+      expect(records[0].originalSize).toBe(fs.statSync(filePath).size);
+      expect(records[0].errors).toEqual([]);
+      for (const variant of records[0].variants) {
+        expect(variant.size).toBe(fs.statSync(variant.path).size);
+        expect(variant.duration).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should report progress as each file finishes', async () => {
+      for (let i = 0; i < 3; i++) {
+        createTestFile(testDir, `file${i}.js`, 'console.log("progress"); '.repeat(100));
+      }
+      const progress: CompressionProgress[] = [];
+
+      await compressDirectory(testDir, {
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        onProgress: update => progress.push(update)
+      });
+
+      expect(progress.map(update => update.currentIndex)).toEqual([1, 2, 3]);
+      expect(progress[2].totalFiles).toBe(3);
+      expect(progress[2].percentage).toBe(100);
+    });
+
+    it('should reject with an AbortError when aborted', async () => {
+      for (let i = 0; i < 5; i++) {
+        createTestFile(testDir, `file${i}.js`, 'console.log("abort"); '.repeat(100));
+      }
+      const controller = new AbortController();
+
+      const run = compressDirectory(testDir, {
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        parallel: false,
+        signal: controller.signal,
+        onProgress: () => controller.abort()
+      });
+
+      await expect(run).rejects.toThrow(/abort/i);
+      expect(fs.readdirSync(testDir).filter(name => name.endsWith('.br'))).toHaveLength(1);
+    });
+
+    it('should let in-flight files finish when aborted in parallel', async () => {
+      for (let i = 0; i < 4; i++) {
+        createTestFile(testDir, `file${i}.js`, crypto.randomBytes(256 * 1024).toString('hex'));
+      }
+      const controller = new AbortController();
+
+      const run = compressDirectory(testDir, {
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        quality: 11,
+        maxParallel: 2,
+        signal: controller.signal,
+        onProgress: () => controller.abort()
+      });
+
+      await expect(run).rejects.toThrow(/abort/i);
+      expect(fs.readdirSync(testDir).filter(name => name.endsWith('.br'))).toHaveLength(2);
+    });
+
+    it('should not start when the signal is already aborted', async () => {
+      createTestFile(testDir, 'app.js', 'console.log("abort"); '.repeat(100));
+
+      await expect(compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        signal: AbortSignal.abort()
+      })).rejects.toThrow(/abort/i);
+      expect(fs.existsSync(path.join(testDir, 'app.js.br'))).toBe(false);
+    });
+  });
+
+  describe('Unprofitable variants', () => {
+    it('should discard variants that are not smaller than the original', async () => {
+      const filePath = path.join(testDir, 'icon.ico');
+      fs.writeFileSync(filePath, crypto.randomBytes(2048));
+
+      const { stats, files } = await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        minSize: 0,
+        minRatio: 1,
+        deleteOriginal: true
+      });
+
+      expect(stats.compressedFiles).toBe(0);
+      expect(stats.skippedFiles).toBe(2);
+      expect(fs.existsSync(`${filePath}.br`)).toBe(false);
+      expect(fs.existsSync(`${filePath}.gz`)).toBe(false);
+      expect(fs.existsSync(filePath)).toBe(true);
+      expect(files[0].variants).toEqual([]);
+      expect(files[0].skipped.map(skip => skip.encoding)).toEqual([CompressionType.BROTLI, CompressionType.GZIP]);
+      expect(files[0].skipped[0].reason).toMatch(/Brotli output \(.+\) is \d+\.\d% of the original, not below minRatio 1/);
+    });
+
+    it('should apply a custom minRatio', async () => {
+      // Half random, half repetitive: compresses to roughly 60% of the original
+      const content = crypto.randomBytes(768).toString('hex').slice(0, 1536) + 'a'.repeat(1024);
+      const filePath = createTestFile(testDir, 'data.json', content);
+
+      const strict = await compressDirectory(testDir, { verbose: false, minSize: 0, minRatio: 0.3 });
+      expect(strict.stats.skippedFiles).toBe(1);
+      expect(fs.existsSync(`${filePath}.br`)).toBe(false);
+
+      const lenient = await compressDirectory(testDir, { verbose: false, minSize: 0, minRatio: 0.8 });
+      expect(lenient.stats.compressedFiles).toBe(1);
+      expect(fs.existsSync(`${filePath}.br`)).toBe(true);
+    });
+  });
+
+  describe('Per-file rules', () => {
+    const content = 'const value = "rule based compression"; '.repeat(200);
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(testDir, 'assets'), { recursive: true });
+    });
+
+    it('should apply the first matching rule and fall back to top-level options', async () => {
+      const htmlPath = createTestFile(testDir, 'index.html', content);
+      const vendorPath = createTestFile(testDir, 'assets/vendor-abc.js', content);
+      const appPath = createTestFile(testDir, 'assets/app.js', content);
+      const dataPath = createTestFile(testDir, 'data.json', content);
+
+      const { files } = await compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        quality: 4,
+        rules: [
+          { extensions: ['html'], quality: 11 },
+          { match: 'assets/vendor-*.js', quality: 9 },
+          { match: '**/*.js', quality: 1 },
+          { extensions: ['json'], type: CompressionType.GZIP }
+        ]
+      });
+
+      const sizeAt = (quality: number) =>
+        zlib.brotliCompressSync(content, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: quality } }).length;
+      const variantSize = (filePath: string) =>
+        files.find(file => file.filePath === filePath)!.variants[0].size;
+
+      expect(variantSize(htmlPath)).toBe(sizeAt(11));
+      expect(variantSize(vendorPath)).toBe(sizeAt(9));
+      expect(variantSize(appPath)).toBe(sizeAt(1));
+      expect(fs.existsSync(`${dataPath}.br`)).toBe(false);
+      expect(fs.existsSync(`${dataPath}.gz`)).toBe(true);
+    });
+
+    it('should never compress files matched by a rule with compress: false', async () => {
+      const mapPath = createTestFile(testDir, 'assets/app.js.map', content);
+      const jsPath = createTestFile(testDir, 'assets/app.js', content);
+
+      const { stats } = await compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        extensions: ['js', 'map'],
+        rules: [{ extensions: ['.map'], compress: false }]
+      });
+
+      expect(stats.totalFiles).toBe(1);
+      expect(fs.existsSync(`${jsPath}.br`)).toBe(true);
+      expect(fs.existsSync(`${mapPath}.br`)).toBe(false);
+    });
+
+    it('should override size limits per rule', async () => {
+      const smallPath = createTestFile(testDir, 'small.css', 'a{color:red}'.repeat(10));
+      const smallJsPath = createTestFile(testDir, 'small.js', 'a{color:red}'.repeat(10));
+
+      await compressDirectory(testDir, {
+        verbose: false,
+        rules: [{ extensions: ['css'], minSize: 0 }]
+      });
+
+      expect(fs.existsSync(`${smallPath}.br`)).toBe(true);
+      expect(fs.existsSync(`${smallJsPath}.br`)).toBe(false);
+    });
+  });
+
+  describe('Brotli encoder parameters', () => {
+    it('should apply window settings from the top-level option and rules', async () => {
+      // Repeats 4 KB apart, out of reach of a 1 KB window
+      const block = crypto.randomBytes(2048).toString('hex');
+      const smallWindowPath = createTestFile(testDir, 'small-window.js', block.repeat(4));
+      const defaultPath = createTestFile(testDir, 'default.js', block.repeat(4));
+
+      await compressDirectory(testDir, {
+        verbose: false,
+        brotli: { lgblock: 16 },
+        rules: [{ match: 'small-window.js', brotli: { lgwin: 10 } }]
+      });
+
+      const smallWindow = fs.readFileSync(`${smallWindowPath}.br`);
+      const defaultWindow = fs.readFileSync(`${defaultPath}.br`);
+      expect(smallWindow.length).toBeGreaterThan(defaultWindow.length * 2);
+      expect(zlib.brotliDecompressSync(smallWindow).toString()).toBe(block.repeat(4));
+      expect(zlib.brotliDecompressSync(defaultWindow).toString()).toBe(block.repeat(4));
+    });
+
+    it('should write large-window streams only when enabled', async () => {
+      const content = 'const largeWindow = true; '.repeat(200);
+      const filePath = createTestFile(testDir, 'large.js', content);
+
+      await compressDirectory(testDir, {
+        verbose: false,
+        brotli: { largeWindow: true, lgwin: 26, mode: 'generic' }
+      });
+
+      const compressed = fs.readFileSync(`${filePath}.br`);
+      expect(() => zlib.brotliDecompressSync(compressed)).toThrow();
+      const decoded = zlib.brotliDecompressSync(compressed, {
+        params: { [zlib.constants.BROTLI_DECODER_PARAM_LARGE_WINDOW]: 1 }
+      });
+      expect(decoded.toString()).toBe(content);
+    });
+  });
+
+  describe('Dictionary transport', () => {
+    const previousContent = 'export const greeting = "hello"; // version one\n'.repeat(100);
+    const content = 'export const greeting = "hello"; // version two\n'.repeat(100);
+    let previousDir: string;
+    let warnSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      previousDir = path.join(testDir, 'previous');
+      fs.mkdirSync(path.join(previousDir, 'assets'), { recursive: true });
+      fs.writeFileSync(path.join(previousDir, 'assets', 'index-AAAA1111.js'), previousContent);
+      fs.writeFileSync(path.join(previousDir, 'assets', 'vendor-CCCC3333.js'), content);
+      fs.mkdirSync(path.join(testDir, 'dist', 'assets'), { recursive: true });
+      warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+    });
+
+    // Node.js compresses zstd with a dictionary from 24.6; older versions ignore it
+    const supportsZstdDictionary = (() => {
+      if (typeof zlib.zstdCompressSync !== 'function') return false;
+      const dictionary = Buffer.from('probe '.repeat(20));
+      try {
+        zlib.zstdDecompressSync(zlib.zstdCompressSync(dictionary, { dictionary }));
+        return false;
+      } catch {
+        return true;
+      }
+    })();
+
+    it('should write Use-As-Dictionary and Available-Dictionary metadata', async () => {
+      const outDir = path.join(testDir, 'dist');
+      fs.writeFileSync(path.join(outDir, 'assets', 'index-BBBB2222.js'), content);
+      fs.writeFileSync(path.join(outDir, 'assets', 'vendor-CCCC3333.js'), content);
+      fs.writeFileSync(path.join(outDir, 'index.html'), '<html></html>'.repeat(100));
+
+      await compressDirectory(outDir, {
+        verbose: false,
+        dictionary: { previousBuild: previousDir, base: '/app' }
+      });
+
+      const json = fs.readFileSync(path.join(outDir, 'compression-dictionaries.json'), 'utf-8');
+      const metadata = JSON.parse(json);
+      const hash = crypto.createHash('sha256').update(previousContent).digest('base64');
+
+      expect(json.endsWith('}\n')).toBe(true);
+
+      expect(Object.keys(metadata.files).sort()).toEqual(['assets/index-BBBB2222.js', 'assets/vendor-CCCC3333.js']);
+      expect(metadata.files['assets/index-BBBB2222.js']).toMatchObject({
+        useAsDictionary: 'match="/app/assets/index-*.js"',
+        dictionary: { file: 'assets/index-AAAA1111.js', availableDictionary: `:${hash}:` }
+      });
+      // Unchanged files are already cached by clients
+      expect(metadata.files['assets/vendor-CCCC3333.js'].dictionary).toBeUndefined();
+
+      // Brotli has no dictionary variant, so only the normal .br is written
+      expect(metadata.files['assets/index-BBBB2222.js'].dictionary.variants).toEqual({});
+      expect(fs.readdirSync(path.join(outDir, 'assets')).sort()).toEqual([
+        'index-BBBB2222.js',
+        'index-BBBB2222.js.br',
+        'vendor-CCCC3333.js',
+        'vendor-CCCC3333.js.br'
+      ]);
+    });
+
+    it('should warn that dictionary variants need zstd', async () => {
+      const outDir = path.join(testDir, 'dist');
+      fs.writeFileSync(path.join(outDir, 'assets', 'index-BBBB2222.js'), content);
+
+      brotliCompress({ verbose: false, dictionary: { previousBuild: previousDir } });
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Dictionary variants are only written for zstd (.dcz)'));
+
+      warnSpy.mockClear();
+      await compressDirectory(outDir, { verbose: false, dictionary: { previousBuild: previousDir } });
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it.skipIf(supportsZstdDictionary)('should warn and skip dcz variants when the runtime cannot compress with a dictionary', async () => {
+      const outDir = path.join(testDir, 'dist');
+      fs.writeFileSync(path.join(outDir, 'assets', 'index-BBBB2222.js'), content);
+
+      await compressDirectory(outDir, {
+        type: [CompressionType.BROTLI, CompressionType.ZSTD],
+        verbose: false,
+        dictionary: { previousBuild: previousDir }
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('skipping .dcz variants'));
+      expect(fs.existsSync(path.join(outDir, 'assets', 'index-BBBB2222.js.dcz'))).toBe(false);
+    });
+
+    it.skipIf(!supportsZstdDictionary)('should write dcz variants that decode with the previous version', async () => {
+      const outDir = path.join(testDir, 'dist');
+      const filePath = path.join(outDir, 'assets', 'index-BBBB2222.js');
+      fs.writeFileSync(filePath, content);
+
+      await compressDirectory(outDir, {
+        type: CompressionType.ZSTD,
+        verbose: false,
+        dictionary: { previousBuild: previousDir }
+      });
+
+      const variant = fs.readFileSync(`${filePath}.dcz`);
+      const hash = crypto.createHash('sha256').update(previousContent).digest();
+      expect(variant.subarray(0, 8)).toEqual(Buffer.from([0x5e, 0x2a, 0x4d, 0x18, 0x20, 0x00, 0x00, 0x00]));
+      expect(variant.subarray(8, 40)).toEqual(hash);
+      const decoded = zlib.zstdDecompressSync(variant.subarray(40), { dictionary: Buffer.from(previousContent) });
+      expect(decoded.toString()).toBe(content);
+    });
+  });
+
+  describe('Automatic quality tuning', () => {
+    const content = crypto.randomBytes(4096).toString('hex').replace(/[0-4]/g, ' ');
+
+    it('should keep the smallest output and record the chosen levels', async () => {
+      const jsPath = createTestFile(testDir, 'app.js', content);
+      const cssPath = createTestFile(testDir, 'style.css', content);
+
+      const { stats, files } = await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        quality: 'auto',
+        gzipLevel: 'auto',
+        autoTune: { qualities: [11, 1], gzipLevels: [1, 9], fileTimeBudget: 60_000 },
+        rules: [{ extensions: ['css'], quality: 4 }],
+        manifest: true
+      });
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'compression-manifest.json'), 'utf-8'));
+      expect(manifest.settings).toMatchObject({ quality: 'auto', gzipLevel: 'auto', autoLevels: { br: [1, 11], gzip: [1, 9] } });
+      expect(manifest.files['app.js'].variants.br.level).toBe(11);
+      expect(manifest.files['style.css'].variants.br.level).toBeUndefined();
+
+      const jsVariants = files.find(file => file.filePath === jsPath)!.variants;
+      const cssVariants = files.find(file => file.filePath === cssPath)!.variants;
+      expect(jsVariants.map(variant => variant.level)).toEqual([11, 9]);
+      expect(cssVariants.map(variant => variant.level)).toEqual([undefined, 9]);
+      expect(stats.tunedLevels).toEqual({ brotli: { 11: 1 }, gzip: { 9: 2 } });
+      expect(zlib.brotliDecompressSync(fs.readFileSync(`${jsPath}.br`)).toString()).toBe(content);
+    });
+
+    it('should only try the fastest level once the time budget is spent', async () => {
+      createTestFile(testDir, 'app.js', content);
+
+      const { stats, files } = await compressDirectory(testDir, {
+        verbose: false,
+        quality: 'auto',
+        autoTune: { qualities: [9, 2], totalTimeBudget: 0 }
+      });
+
+      expect(files[0].variants[0].level).toBe(2);
+      expect(stats.tunedLevels).toEqual({ brotli: { 2: 1 } });
+    });
+
+    it('should restore tuned output and its level from the cache', async () => {
+      createTestFile(testDir, 'app.js', content);
+      const options = {
+        verbose: false,
+        quality: 'auto' as const,
+        autoTune: { qualities: [1, 11], fileTimeBudget: 60_000 },
+        cache: path.join(testDir, '.cache')
+      };
+
+      const first = await compressDirectory(testDir, options);
+      const second = await compressDirectory(testDir, options);
+      const otherLevels = await compressDirectory(testDir, { ...options, autoTune: { qualities: [1, 4] } });
+
+      expect(first.stats.cachedFiles).toBe(0);
+      expect(second.stats.cachedFiles).toBe(1);
+      expect(second.files[0].variants[0].level).toBe(11);
+      expect(second.stats.tunedLevels).toEqual({ brotli: { 11: 1 } });
+      expect(otherLevels.stats.cachedFiles).toBe(0);
+    });
+  });
+
+  describe('Zopfli gzip', () => {
+    const content = Array.from(
+      { length: 400 },
+      (_, i) => `export function handler${i}(value) { return value * ${i % 17} + "${(i * 7919) % 1000}"; }`
+    ).join('\n');
+
+    it('should write standard gzip smaller than level 9 and delete originals', async () => {
+      const filePath = createTestFile(testDir, 'app.js', content);
+
+      const { stats, files } = await compressDirectory(testDir, {
+        type: CompressionType.GZIP,
+        verbose: false,
+        gzipLevel: 'auto',
+        gzip: { strategy: 'zopfli', iterations: 5 },
+        deleteOriginal: true
+      });
+
+      const compressed = fs.readFileSync(`${filePath}.gz`);
+      expect(zlib.gunzipSync(compressed).toString()).toBe(content);
+      expect(compressed.length).toBeLessThan(zlib.gzipSync(content, { level: 9 }).length);
+      expect(files[0].variants[0]).toMatchObject({ encoding: 'gzip', size: compressed.length, level: undefined });
+      expect(stats.gzipFiles).toBe(1);
+      expect(stats.totalCompressedSize).toBe(compressed.length);
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should apply the strategy per rule', async () => {
+      const zopfliPath = createTestFile(testDir, 'vendor.js', content);
+      const zlibPath = createTestFile(testDir, 'app.js', content);
+
+      await compressDirectory(testDir, {
+        type: CompressionType.GZIP,
+        verbose: false,
+        gzipLevel: 9,
+        rules: [{ match: 'vendor.js', gzip: { strategy: 'zopfli' } }]
+      });
+
+      const zopfli = fs.readFileSync(`${zopfliPath}.gz`);
+      const zlibOutput = fs.readFileSync(`${zlibPath}.gz`);
+      expect(zopfli.length).toBeLessThan(zlibOutput.length);
+      expect(zlib.gunzipSync(zopfli).toString()).toBe(content);
+      expect(zlibOutput.equals(zlib.gzipSync(content, { level: 9 }))).toBe(true);
+    });
+  });
+
+  describe('Verification', () => {
+    const content = 'console.log("verified"); '.repeat(100);
+    const sri = (data: Buffer | string) => `sha256-${crypto.createHash('sha256').update(data).digest('base64')}`;
+
+    it('should record SRI digests of originals and variants', async () => {
+      const filePath = createTestFile(testDir, 'app.js', content);
+
+      const { files } = await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        verify: true,
+        integrity: true
+      });
+
+      expect(files[0].integrity).toBe(sri(content));
+      expect(files[0].variants.map(variant => variant.integrity)).toEqual([
+        sri(fs.readFileSync(`${filePath}.br`)),
+        sri(fs.readFileSync(`${filePath}.gz`))
+      ]);
+    });
+
+    it('should fail files whose variants do not round-trip and keep the original', async () => {
+      const cacheDir = path.join(testDir, '.cache');
+      const filePath = createTestFile(testDir, 'app.js', content);
+      await compressDirectory(testDir, { verbose: false, cache: cacheDir, excludePatterns: ['.cache/**'] });
+
+      // Truncate the cached stream, as a crashed write would
+      const [entry] = fs.readdirSync(cacheDir);
+      const cached = fs.readFileSync(path.join(cacheDir, entry));
+      fs.writeFileSync(path.join(cacheDir, entry), cached.subarray(0, cached.length / 2));
+      fs.rmSync(`${filePath}.br`);
+
+      const errorCallback = vi.fn();
+      const { stats } = await compressDirectory(testDir, {
+        verbose: false,
+        cache: cacheDir,
+        excludePatterns: ['.cache/**'],
+        verify: true,
+        deleteOriginal: true,
+        errorCallback
+      });
+
+      expect(stats.failedFiles).toBe(1);
+      expect(errorCallback.mock.calls[0][0].message).toContain('Brotli variant does not decompress');
+      expect(fs.existsSync(`${filePath}.br`)).toBe(false);
+      expect(fs.existsSync(filePath)).toBe(true);
+      expect(fs.readdirSync(cacheDir)).toHaveLength(0);
+    });
+
+    it('should recompress corrupt variants on retry', async () => {
+      const cacheDir = path.join(testDir, '.cache');
+      const filePath = createTestFile(testDir, 'app.js', content);
+      await compressDirectory(testDir, { verbose: false, cache: cacheDir, excludePatterns: ['.cache/**'] });
+
+      const [entry] = fs.readdirSync(cacheDir);
+      fs.writeFileSync(path.join(cacheDir, entry), zlib.brotliCompressSync('something else'));
+
+      const { stats } = await compressDirectory(testDir, {
+        verbose: false,
+        cache: cacheDir,
+        excludePatterns: ['.cache/**'],
+        verify: true,
+        retryAttempts: 1
+      });
+
+      expect(stats.compressedFiles).toBe(1);
+      expect(zlib.brotliDecompressSync(fs.readFileSync(`${filePath}.br`)).toString()).toBe(content);
+    });
+
+    it('should verify custom compressors with a decoder', async () => {
+      createTestFile(testDir, 'app.js', content);
+      const errorCallback = vi.fn();
+
+      await compressDirectory(testDir, {
+        verbose: false,
+        verify: true,
+        errorCallback,
+        compressors: [{
+          name: 'deflate',
+          extension: 'zz',
+          contentEncoding: 'deflate',
+          encode: async (input: Buffer) => zlib.deflateSync(input),
+          decode: async (input: Buffer) => zlib.inflateSync(input).subarray(1)
+        }]
+      });
+
+      expect(errorCallback.mock.calls[0][0].message).toContain('deflate variant does not match the original');
+    });
+  });
+
+  describe('Atomic writes', () => {
+    const content = 'console.log("atomic"); '.repeat(100);
+
+    it('should give variants the mode and mtime of the original without leaving temp files', async () => {
+      const filePath = createTestFile(testDir, 'app.js', content);
+      const mtime = new Date('2024-01-02T03:04:05Z');
+      fs.chmodSync(filePath, 0o640);
+      fs.utimesSync(filePath, mtime, mtime);
+
+      await compressDirectory(testDir, { type: CompressionType.BOTH, verbose: false });
+
+      for (const extension of ['br', 'gz']) {
+        const stats = fs.statSync(`${filePath}.${extension}`);
+        expect(stats.mode & 0o777).toBe(0o640);
+        expect(stats.mtime.getTime()).toBe(mtime.getTime());
+      }
+      expect(fs.readdirSync(testDir).sort()).toEqual(['app.js', 'app.js.br', 'app.js.gz']);
+    });
+
+    it('should remove the variants of a failed attempt', async () => {
+      createTestFile(testDir, 'app.js', content);
+
+      const { stats } = await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        verify: true,
+        compressors: [{
+          name: 'deflate',
+          extension: 'zz',
+          contentEncoding: 'deflate',
+          encode: async (input: Buffer) => zlib.deflateSync(input),
+          decode: async () => Buffer.from('corrupt')
+        }]
+      });
+
+      expect(stats.failedFiles).toBe(1);
+      expect(fs.readdirSync(testDir)).toEqual(['app.js']);
+    });
+
+    it('should not leave temp files behind when a parallel run is aborted', async () => {
+      for (let i = 0; i < 4; i++) {
+        createTestFile(testDir, `file${i}.js`, crypto.randomBytes(128 * 1024).toString('hex'));
+      }
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      await expect(compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        quality: 11,
+        maxParallel: 2,
+        signal: controller.signal
+      })).rejects.toThrow(/abort/i);
+
+      const names = fs.readdirSync(testDir);
+      expect(names.filter(name => name.endsWith('.tmp'))).toEqual([]);
+      for (const name of names.filter(name => name.endsWith('.br'))) {
+        const original = fs.readFileSync(path.join(testDir, name.slice(0, -'.br'.length)));
+        expect(zlib.brotliDecompressSync(fs.readFileSync(path.join(testDir, name)))).toEqual(original);
+      }
+    });
+  });
+
+  describe('Stale variants', () => {
+    const content = 'console.log("current build"); '.repeat(100);
+
+    beforeEach(() => {
+      createTestFile(testDir, 'index-Zz98Yy76.js', content);
+      createTestFile(testDir, 'index-Ab12Cd34.js.br', 'old');
+      createTestFile(testDir, 'index-Ab12Cd34.js.gz', 'old');
+      createTestFile(testDir, 'legacy.css.br', 'old');
+      createTestFile(testDir, 'backup.tar.gz', 'archive');
+    });
+
+    it('should remove variants whose original no longer exists', async () => {
+      const { staleVariants } = await compressDirectory(testDir, { verbose: false, cleanStale: true });
+
+      expect(staleVariants!.map(filePath => path.basename(filePath)).sort()).toEqual([
+        'index-Ab12Cd34.js.br',
+        'index-Ab12Cd34.js.gz',
+        'legacy.css.br'
+      ]);
+      expect(fs.readdirSync(testDir).sort()).toEqual(['backup.tar.gz', 'index-Zz98Yy76.js', 'index-Zz98Yy76.js.br']);
+    });
+
+    it('should only report stale variants in a dry run', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const { staleVariants } = await compressDirectory(testDir, { cleanStale: { dryRun: true } });
+
+      expect(staleVariants).toHaveLength(3);
+      expect(fs.existsSync(path.join(testDir, 'legacy.css.br'))).toBe(true);
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Found 3 stale variant(s) (dry run, nothing deleted)'));
+      expect(logSpy).toHaveBeenCalledWith('  legacy.css.br');
+      logSpy.mockRestore();
+    });
+
+    it('should keep variants of intentionally deleted originals', async () => {
+      const { staleVariants } = await compressDirectory(testDir, { verbose: false, cleanStale: true, deleteOriginal: true });
+
+      // Only the superseded version of index.js is stale; legacy.css may have been deleted on purpose
+      expect(staleVariants!.map(filePath => path.basename(filePath)).sort()).toEqual([
+        'index-Ab12Cd34.js.br',
+        'index-Ab12Cd34.js.gz'
+      ]);
+      expect(fs.readdirSync(testDir).sort()).toEqual(['backup.tar.gz', 'index-Zz98Yy76.js.br', 'legacy.css.br']);
+    });
+  });
+
+  describe('Custom compressors', () => {
+    const content = 'console.log("custom compressor"); '.repeat(100);
+    const deflate = {
+      name: 'deflate',
+      extension: 'zz',
+      contentEncoding: 'deflate',
+      encode: async (input: Buffer) => zlib.deflateSync(input)
+    };
+    const gzipStream = {
+      name: 'gzip-stream',
+      extension: 'gzs',
+      contentEncoding: 'gzip-stream',
+      encode: () => zlib.createGzip({ level: 9 })
+    };
+
+    it('should write variants from async and stream-returning encoders', async () => {
+      const filePath = createTestFile(testDir, 'app.js', content);
+
+      const { stats, files } = await compressDirectory(testDir, {
+        verbose: false,
+        manifest: true,
+        compressors: [deflate, gzipStream]
+      });
+
+      expect(zlib.inflateSync(fs.readFileSync(`${filePath}.zz`)).toString()).toBe(content);
+      expect(zlib.gunzipSync(fs.readFileSync(`${filePath}.gzs`)).toString()).toBe(content);
+      expect(stats.compressedFiles).toBe(3);
+      expect(files[0].variants.map(variant => variant.encoding)).toEqual([CompressionType.BROTLI, 'deflate', 'gzip-stream']);
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, 'compression-manifest.json'), 'utf-8'));
+      expect(manifest.settings.encodings).toEqual(['br', 'deflate', 'gzip-stream']);
+      expect(Object.keys(manifest.files['app.js'].variants)).toEqual(['br', 'deflate', 'gzip-stream']);
+    });
+
+    it('should record encoder failures without stopping other encodings', async () => {
+      const filePath = createTestFile(testDir, 'app.js', content);
+      const failing = { ...deflate, encode: async () => { throw new Error('encoder crashed'); } };
+
+      const { stats, files } = await compressDirectory(testDir, { verbose: false, compressors: [failing] });
+
+      expect(stats.failedFiles).toBe(1);
+      expect(files[0].errors).toEqual(['deflate: encoder crashed']);
+      expect(fs.existsSync(`${filePath}.br`)).toBe(true);
+    });
+
+    it('should reject compressors that clash with built-in encodings', async () => {
+      await expect(compressDirectory(testDir, {
+        type: CompressionType.GZIP,
+        compressors: [{ ...gzipStream, extension: 'gz' }]
+      })).rejects.toThrow('writes .gz files, which Gzip also writes');
+      await expect(compressDirectory(testDir, {
+        compressors: [{ ...deflate, name: 'brotli' }]
+      })).rejects.toThrow('Compressor name "brotli" is already in use');
+    });
+
+    it('should reject compressors that reuse a built-in Content-Encoding', async () => {
+      await expect(compressDirectory(testDir, {
+        compressors: [{ ...gzipStream, contentEncoding: 'gzip' }]
+      })).rejects.toThrow('Compressor "gzip-stream" uses the Content-Encoding "gzip" of the built-in Gzip encoding');
+      expect(() => brotliCompress({ compressors: [{ ...deflate, contentEncoding: 'BR' }] })).toThrow('built-in Brotli encoding');
+    });
+
+    it('should reject compressors that clash with encodings added by rules', async () => {
+      await expect(compressDirectory(testDir, {
+        rules: [{ extensions: ['css'], type: CompressionType.GZIP }],
+        compressors: [{ ...gzipStream, extension: 'gz' }]
+      })).rejects.toThrow('writes .gz files, which Gzip also writes');
+    });
+  });
+
+  describe('Progress reporting', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 3; i++) {
+        createTestFile(testDir, `file${i}.js`, 'console.log("progress"); '.repeat(100));
+      }
+    });
+
+    it('should call the plugin onProgress option as each file finishes', async () => {
+      const progress: CompressionProgress[] = [];
+      const plugin = brotliCompress({
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        onProgress: update => progress.push(update)
+      });
+
+      (plugin.configResolved as any)(mockConfig);
+      await (plugin.closeBundle as any)();
+
+      expect(progress.map(update => update.currentIndex)).toEqual([1, 2, 3]);
+      expect(progress.map(update => path.basename(update.currentFile)).sort()).toEqual(['file0.js', 'file1.js', 'file2.js']);
+      expect(progress[2]).toMatchObject({ totalFiles: 3, percentage: 100 });
+    });
+
+    it('should draw a progress bar on a TTY when verbose', async () => {
+      const isTTY = process.stdout.isTTY;
+      process.stdout.isTTY = true;
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      let lines: string[];
+      try {
+        await compressDirectory(testDir, { extensions: ['js'], minSize: 0 });
+        lines = writeSpy.mock.calls.map(call => String(call[0]));
+      } finally {
+        process.stdout.isTTY = isTTY;
+        writeSpy.mockRestore();
+        logSpy.mockRestore();
+      }
+
+      expect(lines.some(line => line.includes('1/3'))).toBe(true);
+      expect(lines.some(line => line.includes('████████████████████ 3/3'))).toBe(true);
+      expect(lines[lines.length - 1]).toBe('\r\x1b[K');
+    });
+
+    it('should not draw a progress bar when verbose is off', async () => {
+      const isTTY = process.stdout.isTTY;
+      process.stdout.isTTY = true;
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      let calls: number;
+      try {
+        await compressDirectory(testDir, { extensions: ['js'], minSize: 0, verbose: false });
+        calls = writeSpy.mock.calls.length;
+      } finally {
+        process.stdout.isTTY = isTTY;
+        writeSpy.mockRestore();
+      }
+
+      expect(calls).toBe(0);
+    });
+  });
+
+  describe('Size budgets', () => {
+    // Incompressible content so the brotli variant stays above 1 KB
+    const randomContent = () => crypto.randomBytes(1024).toString('base64');
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(testDir, 'assets'));
+      createTestFile(testDir, 'assets/index-abc123.js', randomContent());
+      createTestFile(testDir, 'assets/vendor-def456.js', 'console.log("vendor"); '.repeat(100));
+    });
+
+    it('should fail with a table when an error budget is exceeded', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        budgets: [{ match: 'assets/index-*.js', brotli: 1024 }]
+      })).rejects.toThrow('1 compressed size budget exceeded');
+
+      const table = errorSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      expect(table).toContain('assets/index-abc123.js');
+      expect(table).toContain('Brotli');
+      expect(table).not.toContain('vendor');
+      errorSpy.mockRestore();
+    });
+
+    it('should keep failing for files skipped by skipExisting', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const options = {
+        verbose: false,
+        minSize: 0,
+        skipExisting: true,
+        budgets: [{ match: 'assets/index-*.js', brotli: 1024 }]
+      };
+
+      await expect(compressDirectory(testDir, options)).rejects.toThrow('1 compressed size budget exceeded');
+      await expect(compressDirectory(testDir, options)).rejects.toThrow('1 compressed size budget exceeded');
+
+      errorSpy.mockRestore();
+    });
+
+    it('should only warn when the budget severity is warn', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { stats } = await compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        budgets: [{ match: '**/*.js', brotli: 1024, severity: 'warn' }]
+      });
+
+      expect(stats.compressedFiles).toBe(2);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('assets/index-abc123.js'));
+      warnSpy.mockRestore();
+    });
+
+    it('should pass when every variant is within budget', async () => {
+      await expect(compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        minSize: 0,
+        budgets: [{ match: 'assets/*.js', brotli: 10 * 1024, gzip: 10 * 1024 }]
+      })).resolves.toBeDefined();
+    });
+  });
+
+  describe('Baseline comparison', () => {
+    let baselinePath: string;
+
+    beforeEach(async () => {
+      createTestFile(testDir, 'index-B_x3Kd9a.js', 'console.log("index"); '.repeat(100));
+      createTestFile(testDir, 'vendor-Qm8zT2pL.js', 'console.log("vendor"); '.repeat(100));
+      createTestFile(testDir, 'legacy-7fGh2kLm.js', 'console.log("legacy"); '.repeat(100));
+
+      await compressDirectory(testDir, { extensions: ['js'], verbose: false, minSize: 0, manifest: true });
+      baselinePath = path.join(testDir, 'baseline.json');
+      fs.renameSync(path.join(testDir, 'compression-manifest.json'), baselinePath);
+
+      // Simulate the next build: new hashes, one grown file, one removed and one added
+      for (const name of fs.readdirSync(testDir).filter(name => name !== 'baseline.json')) {
+        fs.rmSync(path.join(testDir, name));
+      }
+      createTestFile(testDir, 'index-Zp4Wq1nB.js', 'console.log("index"); '.repeat(200));
+      createTestFile(testDir, 'vendor-Hy6sJ0cX.js', 'console.log("vendor"); '.repeat(100));
+      createTestFile(testDir, 'about-K3lM9pQr.js', 'console.log("about"); '.repeat(100));
+    });
+
+    it('should report added, removed and grown files matched by stable name', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await compressDirectory(testDir, { extensions: ['js'], verbose: false, minSize: 0, baseline: baselinePath });
+
+      const output = logSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      logSpy.mockRestore();
+
+      expect(output).toContain('Size changes compared to baseline');
+      expect(output).toMatch(/added\s+about\.js/);
+      expect(output).toMatch(/removed\s+legacy\.js/);
+      expect(output).toMatch(/grown\s+index\.js\s+4\.3 KB \(\+2\.15 KB\)/);
+      expect(output).not.toContain('vendor.js');
+      expect(output).toMatch(/Total: original \+2\.05 KB, br /);
+    });
+
+    it('should compare files skipped by skipExisting with their variants on disk', async () => {
+      await compressDirectory(testDir, { extensions: ['js'], verbose: false, minSize: 0, manifest: true });
+      fs.renameSync(path.join(testDir, 'compression-manifest.json'), baselinePath);
+      const future = new Date(Date.now() + 10_000);
+      fs.utimesSync(createTestFile(testDir, 'about-K3lM9pQr.js', 'console.log("about"); '.repeat(200)), future, future);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const { stats } = await compressDirectory(testDir, {
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        skipExisting: true,
+        baseline: baselinePath
+      });
+
+      const output = logSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      logSpy.mockRestore();
+
+      expect(stats.compressedFiles).toBe(1);
+      expect(output).toMatch(/grown\s+about\.js\s+4\.3 KB \(\+2\.15 KB\)/);
+      expect(output).not.toContain('removed');
+      expect(output).toMatch(/Total: original \+2\.15 KB, br /);
+    });
+
+    it('should not report files without kept variants as removed', async () => {
+      await compressDirectory(testDir, { extensions: ['js'], verbose: false, minSize: 0, manifest: true });
+      fs.renameSync(path.join(testDir, 'compression-manifest.json'), baselinePath);
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await compressDirectory(testDir, {
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        baseline: baselinePath,
+        minRatio: 0.01
+      });
+
+      const output = logSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      logSpy.mockRestore();
+
+      expect(output).not.toContain('removed');
+      expect(output).toMatch(/shrunk\s+about\.js\s+2\.15 KB \(\+0 B\)\s+- \(-/);
+    });
+
+    it('should warn and continue when the baseline is missing', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { stats } = await compressDirectory(testDir, {
+        extensions: ['js'],
+        verbose: false,
+        minSize: 0,
+        baseline: path.join(testDir, 'missing.json')
+      });
+
+      expect(stats.compressedFiles).toBe(3);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Baseline not found'));
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('Reporters', () => {
+    let reportDir: string;
+
+    beforeEach(() => {
+      reportDir = path.join(testDir, 'reports');
+      createTestFile(testDir, 'app.js', 'console.log("report"); '.repeat(100));
+      createTestFile(testDir, 'styles.css', 'body { margin: 0; } '.repeat(100));
+    });
+
+    it('should write the stats and per-file table as JSON', async () => {
+      await compressDirectory(testDir, {
+        type: CompressionType.BOTH,
+        verbose: false,
+        minSize: 0,
+        reporters: [{ type: 'json', outputFile: path.join(reportDir, 'report.json') }]
+      });
+
+      const report = JSON.parse(fs.readFileSync(path.join(reportDir, 'report.json'), 'utf-8'));
+      expect(report.encodings).toEqual(['br', 'gzip']);
+      expect(report.stats.totalFiles).toBe(2);
+      expect(report.files.map((file: any) => file.file)).toEqual(['app.js', 'styles.css']);
+      expect(report.files[0].variants.br.size).toBe(fs.statSync(path.join(testDir, 'app.js.br')).size);
+      expect(report.files[0].variants.br.duration).toBeGreaterThanOrEqual(0);
+      expect(report.files[0].errors).toEqual([]);
+    });
+
+    it('should describe files skipped by skipExisting', async () => {
+      const options = {
+        type: CompressionType.BOTH,
+        verbose: false,
+        extensions: ['js', 'css'],
+        minSize: 0,
+        skipExisting: true,
+        budgets: [{ match: 'app.js', brotli: 10 * 1024 }],
+        reporters: [{ type: 'json' as const, outputFile: path.join(reportDir, 'report.json') }]
+      };
+      await compressDirectory(testDir, options);
+      await compressDirectory(testDir, options);
+
+      const report = JSON.parse(fs.readFileSync(path.join(reportDir, 'report.json'), 'utf-8'));
+      expect(report.stats.totalFiles).toBe(0);
+      expect(report.files.map((file: any) => file.file)).toEqual(['app.js', 'styles.css']);
+      expect(report.files[0]).toMatchObject({ upToDate: true, originalSize: fs.statSync(path.join(testDir, 'app.js')).size });
+      expect(report.files[0].variants.gzip.size).toBe(fs.statSync(path.join(testDir, 'app.js.gz')).size);
+      expect(report.budgets).toHaveLength(1);
+    });
+
+    it('should write a Markdown table with budget results', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        budgets: [{ match: '*.js', brotli: 10, severity: 'warn' }],
+        reporters: [{ type: 'markdown', outputFile: path.join(reportDir, 'report.md') }]
+      });
+      warnSpy.mockRestore();
+
+      const markdown = fs.readFileSync(path.join(reportDir, 'report.md'), 'utf-8');
+      expect(markdown).toContain('## Compression report');
+      expect(markdown).toContain('| File | Original | br |');
+      expect(markdown).toMatch(/\| `app\.js` \| 2\.25 KB \| \d+ B \(-\d+(\.\d+)?%\) \|/);
+      expect(markdown).toContain('### Budgets');
+      expect(markdown).toContain('⚠️ exceeded');
+    });
+
+    it('should write JUnit XML with exceeded budgets as failures', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(compressDirectory(testDir, {
+        verbose: false,
+        minSize: 0,
+        budgets: [{ match: 'app.js', brotli: 10 }, { match: 'styles.css', brotli: 10 * 1024 }],
+        reporters: [{ type: 'junit', outputFile: path.join(reportDir, 'junit.xml') }]
+      })).rejects.toThrow(/budget exceeded/);
+      errorSpy.mockRestore();
+
+      const xml = fs.readFileSync(path.join(reportDir, 'junit.xml'), 'utf-8');
+      expect(xml).toContain('<testsuites name="vite-plugin-brotli-compress" tests="4" failures="1"');
+      expect(xml).toMatch(/<testcase classname="compression" name="app\.js" time="\d+\.\d{3}"\/>/);
+      expect(xml).toContain('<testcase classname="budgets" name="styles.css (br)"/>');
+      expect(xml).toMatch(/<testcase classname="budgets" name="app\.js \(br\)">\s+<failure message="\d+ B exceeds the budget of 10 B \(error\)"\/>/);
+    });
+  });
+
   describe('Directory structure handling', () => {
     it('should handle nested directories', async () => {
       // Create nested directory structure
@@ -258,6 +1570,29 @@ describe('Integration Tests', () => {
       expect(fs.existsSync(path.join(testDir, 'skip-me.js.br'))).toBe(false);
     });
 
+    it('should match include and exclude patterns against the full file path', async () => {
+      const content = 'test content '.repeat(100);
+      createTestFile(testDir, 'app.js', content);
+      fs.mkdirSync(path.join(testDir, 'vendor'));
+      createTestFile(path.join(testDir, 'vendor'), 'lib.js', content);
+
+      await compressDirectory(testDir, { verbose: false, excludePatterns: [`${testDir}/vendor/*`] });
+
+      expect(fs.existsSync(path.join(testDir, 'app.js.br'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'vendor', 'lib.js.br'))).toBe(false);
+
+      // Include patterns take precedence over exclude patterns
+      fs.rmSync(path.join(testDir, 'app.js.br'));
+      await compressDirectory(testDir, {
+        verbose: false,
+        excludePatterns: [`${testDir}/*.js`],
+        includePatterns: [`${testDir}/*.js`]
+      });
+
+      expect(fs.existsSync(path.join(testDir, 'app.js.br'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'vendor', 'lib.js.br'))).toBe(false);
+    });
+
     it('should delete original files when deleteOriginal is true', async () => {
       const content = 'test content '.repeat(100);
       createTestFile(testDir, 'delete-me.js', content);
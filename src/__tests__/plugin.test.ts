@@ -31,17 +31,21 @@ describe('vite-plugin-brotli-compress', () => {
     // Mock streams
     mockReadStream = {
       pipe: vi.fn().mockReturnThis(),
-      on: vi.fn()
+      on: vi.fn(),
+      destroy: vi.fn()
     };
 
     mockWriteStream = {
       on: vi.fn(),
       write: vi.fn(),
-      end: vi.fn()
+      end: vi.fn(),
+      destroy: vi.fn()
     };
 
     mockCompressStream = {
-      pipe: vi.fn().mockReturnValue(mockWriteStream)
+      pipe: vi.fn().mockReturnValue(mockWriteStream),
+      on: vi.fn(),
+      destroy: vi.fn()
     };
 
     // Setup fs mocks with proper behavior
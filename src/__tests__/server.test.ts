@@ -0,0 +1,279 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import zlib from 'zlib';
+import type { AddressInfo } from 'net';
+import brotliCompress, { CompressionType } from '../index';
+
+// Helper function to start a server running the plugin's dev or preview middleware
+async function startDevServer(
+  plugin: any,
+  handler: (req: http.IncomingMessage, res: http.ServerResponse) => void,
+  hook: 'configureServer' | 'configurePreviewServer' = 'configureServer',
+  config?: any
+): Promise<http.Server> {
+  const middlewares: any[] = [];
+  plugin[hook]({ config, middlewares: { use: (fn: any) => middlewares.push(fn) } });
+
+  const server = http.createServer((req, res) => {
+    let index = 0;
+    const next = () => {
+      const middleware = middlewares[index++];
+      if (middleware) middleware(req, res, next);
+      else handler(req, res);
+    };
+    next();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+// Helper function to request a path and collect the raw response body
+function request(
+  server: http.Server,
+  urlPath: string,
+  headers: Record<string, string> = {}
+): Promise<{ status?: number; headers: http.IncomingHttpHeaders; body: Buffer }> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port, path: urlPath, headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: Buffer.concat(chunks) }));
+    }).on('error', reject);
+  });
+}
+
+describe('Dev server middleware', () => {
+  let server: http.Server | undefined;
+  const script = 'export const message = "hello from the dev server"; '.repeat(100);
+
+  const serveScript = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.setHeader('Content-Type', 'text/javascript');
+    res.end(script);
+  };
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('should not register a middleware unless devServer is enabled', () => {
+    const used: any[] = [];
+    const plugin = brotliCompress({ verbose: false });
+
+    (plugin.configureServer as any)({ middlewares: { use: (fn: any) => used.push(fn) } });
+
+    expect(used).toHaveLength(0);
+  });
+
+  it('should compress responses with brotli when accepted', async () => {
+    const plugin = brotliCompress({ devServer: true, verbose: false });
+    server = await startDevServer(plugin, serveScript);
+
+    const { headers, body } = await request(server, '/src/main.js', { 'Accept-Encoding': 'gzip, br' });
+
+    expect(headers['content-encoding']).toBe('br');
+    expect(headers['vary']).toBe('Accept-Encoding');
+    expect(Number(headers['content-length'])).toBe(body.length);
+    expect(zlib.brotliDecompressSync(body).toString()).toBe(script);
+  });
+
+  it('should respect q-values when negotiating', async () => {
+    const plugin = brotliCompress({ type: CompressionType.BOTH, devServer: true, verbose: false });
+    server = await startDevServer(plugin, serveScript);
+
+    const { headers, body } = await request(server, '/src/main.js', { 'Accept-Encoding': 'br;q=0.5, gzip;q=0.8' });
+
+    expect(headers['content-encoding']).toBe('gzip');
+    expect(zlib.gunzipSync(body).toString()).toBe(script);
+  });
+
+  it('should send the original body when no configured encoding is accepted', async () => {
+    const plugin = brotliCompress({ devServer: true, verbose: false });
+    server = await startDevServer(plugin, serveScript);
+
+    const { headers, body } = await request(server, '/src/main.js', { 'Accept-Encoding': 'gzip, br;q=0' });
+
+    expect(headers['content-encoding']).toBeUndefined();
+    expect(body.toString()).toBe(script);
+  });
+
+  it('should skip responses below minSize and non-compressible content types', async () => {
+    const plugin = brotliCompress({ devServer: { minSize: 10 }, verbose: false });
+    server = await startDevServer(plugin, (req, res) => {
+      res.writeHead(200, { 'Content-Type': req.url === '/tiny.js' ? 'text/javascript' : 'image/png' });
+      res.end(req.url === '/tiny.js' ? 'x' : script);
+    });
+
+    const tiny = await request(server, '/tiny.js', { 'Accept-Encoding': 'br' });
+    const image = await request(server, '/image.png', { 'Accept-Encoding': 'br' });
+
+    expect(tiny.headers['content-encoding']).toBeUndefined();
+    expect(tiny.body.toString()).toBe('x');
+    expect(image.headers['content-encoding']).toBeUndefined();
+    expect(image.body.toString()).toBe(script);
+  });
+
+  it('should stream server-sent events without buffering', async () => {
+    const open: http.ServerResponse[] = [];
+    const plugin = brotliCompress({ devServer: true, verbose: false });
+    server = await startDevServer(plugin, (req, res) => {
+      if (req.url === '/head') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      } else {
+        res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+      }
+      res.write('data: hello\n\n');
+      open.push(res);
+    });
+    const { port } = server.address() as AddressInfo;
+
+    for (const urlPath of ['/head', '/set-header']) {
+      // The first event arrives while the response is still open
+      const { headers, data } = await new Promise<{ headers: http.IncomingHttpHeaders; data: string }>((resolve, reject) => {
+        http.get({ host: '127.0.0.1', port, path: urlPath, headers: { 'Accept-Encoding': 'br' } }, (res) => {
+          res.once('data', chunk => resolve({ headers: res.headers, data: chunk.toString() }));
+        }).on('error', reject);
+      });
+
+      expect(headers['content-encoding']).toBeUndefined();
+      expect(data).toBe('data: hello\n\n');
+    }
+    open.forEach(res => res.end());
+  });
+
+  it('should serve repeated content from the cache', async () => {
+    const plugin = brotliCompress({ devServer: true, verbose: false });
+    server = await startDevServer(plugin, serveScript);
+
+    const first = await request(server, '/a.js', { 'Accept-Encoding': 'br' });
+    const second = await request(server, '/b.js', { 'Accept-Encoding': 'br' });
+
+    expect(second.body.equals(first.body)).toBe(true);
+  });
+});
+
+describe('Preview server', () => {
+  let server: http.Server | undefined;
+  let testDir: string;
+  const script = 'export const message = "hello from the preview server"; '.repeat(100);
+
+  const notFound = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.statusCode = 404;
+    res.end('not found');
+  };
+
+  const startPreviewServer = (plugin: any, preview: any = {}) =>
+    startDevServer(plugin, notFound, 'configurePreviewServer', {
+      root: testDir,
+      base: '/',
+      build: { outDir: 'dist' },
+      preview
+    });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+    }
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const writeBuild = (deleteOriginal = false) => {
+    testDir = path.join(process.cwd(), 'test-fixtures', `preview-${Date.now()}`);
+    const assetsDir = path.join(testDir, 'dist', 'assets');
+    fs.mkdirSync(assetsDir, { recursive: true });
+    fs.writeFileSync(path.join(assetsDir, 'app.js.br'), zlib.brotliCompressSync(script));
+    fs.writeFileSync(path.join(assetsDir, 'app.js.gz'), zlib.gzipSync(script));
+    if (!deleteOriginal) {
+      fs.writeFileSync(path.join(assetsDir, 'app.js'), script);
+    }
+  };
+
+  it('should serve the brotli sibling with the original content type', async () => {
+    writeBuild();
+    server = await startPreviewServer(brotliCompress({ verbose: false }));
+
+    const { headers, body } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'gzip, br' });
+
+    expect(headers['content-type']).toBe('text/javascript; charset=utf-8');
+    expect(headers['content-encoding']).toBe('br');
+    expect(headers['vary']).toBe('Accept-Encoding');
+    expect(Number(headers['content-length'])).toBe(body.length);
+    expect(zlib.brotliDecompressSync(body).toString()).toBe(script);
+  });
+
+  it('should fall back to gzip based on Accept-Encoding', async () => {
+    writeBuild();
+    server = await startPreviewServer(brotliCompress({ verbose: false }));
+
+    const { headers, body } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'gzip' });
+
+    expect(headers['content-encoding']).toBe('gzip');
+    expect(zlib.gunzipSync(body).toString()).toBe(script);
+  });
+
+  it('should apply preview.headers and answer matching ETags with 304', async () => {
+    writeBuild();
+    server = await startPreviewServer(brotliCompress({ verbose: false }), {
+      headers: { 'Cross-Origin-Opener-Policy': 'same-origin' }
+    });
+
+    const { headers } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'br' });
+    const gzip = await request(server, '/assets/app.js', { 'Accept-Encoding': 'gzip' });
+    const cached = await request(server, '/assets/app.js', { 'Accept-Encoding': 'br', 'If-None-Match': headers['etag']! });
+
+    expect(headers['cross-origin-opener-policy']).toBe('same-origin');
+    expect(headers['cache-control']).toBe('no-cache');
+    expect(headers['etag']).toMatch(/^W\/"\d+-\d+"$/);
+    expect(gzip.headers['etag']).not.toBe(headers['etag']);
+    expect(cached.status).toBe(304);
+    expect(cached.headers['cross-origin-opener-policy']).toBe('same-origin');
+    expect(cached.body.length).toBe(0);
+  });
+
+  it('should let preview.headers override the default Cache-Control', async () => {
+    writeBuild();
+    server = await startPreviewServer(brotliCompress({ verbose: false }), {
+      headers: { 'Cache-Control': 'max-age=60' }
+    });
+
+    const { headers } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'br' });
+
+    expect(headers['cache-control']).toBe('max-age=60');
+    expect(headers['content-encoding']).toBe('br');
+  });
+
+  it('should serve precompressed files when the original was deleted', async () => {
+    writeBuild(true);
+    server = await startPreviewServer(brotliCompress({ deleteOriginal: true, verbose: false }));
+
+    const { headers } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'br' });
+
+    expect(headers['content-encoding']).toBe('br');
+  });
+
+  it('should pass through when the client accepts no available encoding', async () => {
+    writeBuild();
+    server = await startPreviewServer(brotliCompress({ verbose: false }));
+
+    const { headers, body } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'identity' });
+
+    expect(headers['content-encoding']).toBeUndefined();
+    expect(body.toString()).toBe('not found');
+  });
+
+  it('should not register a middleware when previewServer is false', async () => {
+    writeBuild();
+    server = await startPreviewServer(brotliCompress({ previewServer: false, verbose: false }));
+
+    const { headers } = await request(server, '/assets/app.js', { 'Accept-Encoding': 'br' });
+
+    expect(headers['content-encoding']).toBeUndefined();
+  });
+});
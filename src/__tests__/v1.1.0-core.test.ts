@@ -10,6 +10,7 @@ describe('v1.1.0 New Features - Core Functionality', () => {
     it('should have correct compression type values', () => {
       expect(CompressionType.BROTLI).toBe('brotli');
       expect(CompressionType.GZIP).toBe('gzip');
+      expect(CompressionType.ZSTD).toBe('zstd');
       expect(CompressionType.BOTH).toBe('both');
     });
   });
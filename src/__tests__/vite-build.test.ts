@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { build } from 'vite';
+import type { Rollup } from 'vite';
+import brotliCompress, { BrotliOptions, CompressionType } from '../index';
+
+// Helper function to create a small Vite project
+function createProject(): string {
+  const root = path.join(process.cwd(), 'test-fixtures', `vite-build-${Date.now()}`);
+  fs.mkdirSync(root, { recursive: true });
+  fs.writeFileSync(
+    path.join(root, 'main.js'),
+    `export const items = ${JSON.stringify(Array.from({ length: 200 }, (_, i) => `item-${i}`))};\nconsole.log(items);\n`
+  );
+  return root;
+}
+
+// Helper function to run a library build of the project with the plugin
+async function runBuild(root: string, options: BrotliOptions, write = true) {
+  return build({
+    root,
+    logLevel: 'silent',
+    configFile: false,
+    plugins: [brotliCompress({ verbose: false, minSize: 0, ...options })],
+    build: {
+      write,
+      outDir: 'dist',
+      lib: { entry: path.join(root, 'main.js'), formats: ['es'], fileName: () => 'main.js' }
+    }
+  });
+}
+
+// Helper function to get the output files of a single-output build
+function getOutput(result: Awaited<ReturnType<typeof build>>): Rollup.OutputBundle[string][] {
+  const output = Array.isArray(result) ? result[0] : result;
+  return (output as Rollup.RollupOutput).output;
+}
+
+describe('Vite builds', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = createProject();
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('emitToBundle', () => {
+    it('should emit compressed variants into the bundle without writing to disk', async () => {
+      const result = await runBuild(root, { emitToBundle: true, type: CompressionType.BOTH }, false);
+      const output = getOutput(result);
+      const fileNames = output.map(file => file.fileName);
+
+      expect(fileNames).toContain('main.js.br');
+      expect(fileNames).toContain('main.js.gz');
+      expect(fs.existsSync(path.join(root, 'dist'))).toBe(false);
+
+      const chunk = output.find(file => file.fileName === 'main.js') as Rollup.OutputChunk;
+      const br = output.find(file => file.fileName === 'main.js.br') as Rollup.OutputAsset;
+      expect(zlib.brotliDecompressSync(br.source as Uint8Array).toString()).toBe(chunk.code);
+    });
+
+    it('should remove originals from the bundle with deleteOriginal', async () => {
+      const result = await runBuild(root, { emitToBundle: true, deleteOriginal: true }, false);
+      const fileNames = getOutput(result).map(file => file.fileName);
+
+      expect(fileNames).toContain('main.js.br');
+      expect(fileNames).not.toContain('main.js');
+    });
+
+    it('should write emitted variants and the manifest to outDir', async () => {
+      await runBuild(root, { emitToBundle: true, manifest: true });
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(root, 'dist', 'compression-manifest.json'), 'utf-8'));
+      expect(fs.existsSync(path.join(root, 'dist', 'main.js.br'))).toBe(true);
+      expect(manifest.files['main.js'].variants.br.path).toBe('main.js.br');
+    });
+
+    it('should warn that dictionary is ignored', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await runBuild(root, { emitToBundle: true, dictionary: { previousBuild: 'previous-dist' } }, false);
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('dictionary is not supported with emitToBundle'));
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('environments and outputs', () => {
+    // Helper function to run an SSR build of the project with the plugin
+    const runSsrBuild = (options: BrotliOptions) => build({
+      root,
+      logLevel: 'silent',
+      configFile: false,
+      plugins: [brotliCompress({ verbose: false, minSize: 0, ...options })],
+      build: {
+        ssr: path.join(root, 'main.js'),
+        outDir: 'dist-ssr',
+        rollupOptions: { output: { entryFileNames: 'main.js' } }
+      }
+    });
+
+    it('should not compress SSR builds by default', async () => {
+      await runSsrBuild({});
+
+      expect(fs.existsSync(path.join(root, 'dist-ssr', 'main.js'))).toBe(true);
+      expect(fs.existsSync(path.join(root, 'dist-ssr', 'main.js.br'))).toBe(false);
+    });
+
+    it('should compress SSR builds when enabled per environment', async () => {
+      await runSsrBuild({ environments: { ssr: { type: CompressionType.GZIP } } });
+
+      expect(fs.existsSync(path.join(root, 'dist-ssr', 'main.js.gz'))).toBe(true);
+      expect(fs.existsSync(path.join(root, 'dist-ssr', 'main.js.br'))).toBe(false);
+    });
+
+    it('should skip the client environment when disabled', async () => {
+      await runBuild(root, { environments: { client: false } });
+
+      expect(fs.existsSync(path.join(root, 'dist', 'main.js.br'))).toBe(false);
+    });
+
+    it('should compress every Rollup output directory', async () => {
+      await build({
+        root,
+        logLevel: 'silent',
+        configFile: false,
+        plugins: [brotliCompress({ verbose: false, minSize: 0 })],
+        build: {
+          outDir: 'dist',
+          lib: { entry: path.join(root, 'main.js'), name: 'main' },
+          rollupOptions: {
+            output: [
+              { format: 'es', dir: path.join(root, 'dist', 'es'), entryFileNames: 'main.js' },
+              { format: 'cjs', dir: path.join(root, 'dist', 'cjs'), entryFileNames: 'main.js' }
+            ]
+          }
+        }
+      });
+
+      expect(fs.existsSync(path.join(root, 'dist', 'es', 'main.js.br'))).toBe(true);
+      expect(fs.existsSync(path.join(root, 'dist', 'cjs', 'main.js.br'))).toBe(true);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should fail the build when an entry exceeds its budget', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(runBuild(root, { budgets: [{ match: 'main', brotli: 10 }] })).rejects.toThrow(/budget exceeded/);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('main.js'));
+      errorSpy.mockRestore();
+    });
+
+    it('should check budgets for variants emitted into the bundle', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await runBuild(root, { emitToBundle: true, budgets: [{ match: '*.js', brotli: 10, severity: 'warn' }] }, false);
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Compressed size budgets exceeded'));
+      warnSpy.mockRestore();
+    });
+  });
+
+  it('should compress written files in closeBundle by default', async () => {
+    await runBuild(root, {});
+
+    expect(fs.existsSync(path.join(root, 'dist', 'main.js.br'))).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { Readable, Writable } from 'stream';
+import { createWorkerPool } from '../worker-pool';
+import { zopfliGzip } from '../zopfli';
+
+describe('Worker pool', () => {
+  const input = Buffer.from(crypto.randomBytes(2 * 1024 * 1024).toString('hex'));
+  const options = { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 } };
+
+  it('should compress on worker threads', async () => {
+    const pool = createWorkerPool(1);
+    try {
+      const output = await pool.run('gzip', { level: 6 }, Buffer.from('worker '.repeat(100)));
+      expect(zlib.gunzipSync(output).toString()).toBe('worker '.repeat(100));
+    } finally {
+      await pool.terminate();
+    }
+  });
+
+  it('should run the Zopfli encoder on worker threads', async () => {
+    const source = Buffer.from('.worker { color: red; } '.repeat(500));
+    const pool = createWorkerPool(1);
+    try {
+      const output = await pool.run('gzip', { level: 9, iterations: 5 }, source);
+      expect(output.equals(zopfliGzip(source, 5))).toBe(true);
+      expect(zlib.gunzipSync(output).equals(source)).toBe(true);
+    } finally {
+      await pool.terminate();
+    }
+  });
+
+  it('should reject running and queued jobs when terminated', async () => {
+    const pool = createWorkerPool(1);
+    const running = pool.run('brotli', options, input);
+    const queued = pool.run('brotli', options, input);
+    const stream = pool.createStream('brotli', options);
+    const streamed = pipeline(Readable.from([input]), stream, new Writable({ write: (_chunk, _encoding, callback) => callback() }));
+
+    const settled = Promise.allSettled([running, queued, streamed]);
+
+    // Let the first job reach its worker before terminating
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await pool.terminate();
+
+    for (const result of await settled) {
+      expect(result.status).toBe('rejected');
+      expect((result as PromiseRejectedResult).reason.message).toContain('terminated');
+    }
+    await expect(pool.run('gzip', {}, input)).rejects.toThrow('terminated');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { zopfliDeflate, zopfliGzip } from '../zopfli';
+
+describe('Zopfli encoder', () => {
+  const source = Buffer.from(Array.from(
+    { length: 2000 },
+    (_, i) => `.item-${i} { margin: ${i % 13}px; color: #${(i * 2654435761 % 0xffffff).toString(16).padStart(6, '0')}; }`
+  ).join('\n'));
+
+  it.each([
+    ['empty input', Buffer.alloc(0)],
+    ['a single byte', Buffer.from('a')],
+    ['long runs', Buffer.alloc(100_000, 7)],
+    ['short repeats', Buffer.from('abcabcabcabd'.repeat(1000))],
+    ['incompressible data', crypto.randomBytes(150_000)]
+  ])('should round-trip %s', (_, data) => {
+    expect(zlib.gunzipSync(zopfliGzip(data)).equals(data)).toBe(true);
+    expect(zlib.inflateRawSync(zopfliDeflate(data)).equals(data)).toBe(true);
+  });
+
+  it('should compress text smaller than zlib level 9', () => {
+    const compressed = zopfliGzip(source);
+
+    expect(zlib.gunzipSync(compressed).equals(source)).toBe(true);
+    expect(compressed.length).toBeLessThan(zlib.gzipSync(source, { level: 9 }).length);
+  });
+
+  it('should not grow when more iterations are allowed', () => {
+    expect(zopfliDeflate(source, 10).length).toBeLessThanOrEqual(zopfliDeflate(source, 1).length);
+  });
+
+  it('should split mixed content into decodable blocks', () => {
+    const mixed = Buffer.concat([source, crypto.randomBytes(40_000), source.subarray(0, 50_000)]);
+    expect(zlib.gunzipSync(zopfliGzip(mixed, 3)).equals(mixed)).toBe(true);
+  });
+});
@@ -0,0 +1,242 @@
+import path from 'path';
+import fs from 'fs';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import {
+  BrotliOptions,
+  CompressionType,
+  compressDirectory,
+  inspectDirectory
+} from './index';
+import { formatBytes } from './format';
+
+const USAGE = `Usage:
+  vite-plugin-brotli-compress [compress] <dir> [options]
+  vite-plugin-brotli-compress inspect <dir> [--extensions js,css] [--json]
+
+Compress options:
+  -t, --type <types>        Comma-separated encodings: brotli, gzip, zstd, both (default: brotli)
+  -q, --quality <0-11>      Brotli quality, or "auto" to pick per file (default: 6)
+      --gzip-level <0-9>    Gzip level, or "auto" to pick per file (default: 6)
+      --zstd-level <1-22>   Zstandard level (default: 3)
+      --min-size <bytes>    Skip files smaller than this (default: 1024)
+      --max-size <bytes>    Skip files larger than this
+  -e, --extensions <list>   Comma-separated file extensions to compress
+      --include <glob>      Glob pattern to include (repeatable)
+      --exclude <glob>      Glob pattern to exclude (repeatable)
+      --delete-original     Delete originals after compression
+      --skip-existing       Skip files whose variants are up to date
+      --manifest[=file]     Write a compression manifest
+  -c, --config <file>       Load options from a .json, .js, .mjs or .cjs file
+      --quiet               Don't log results
+
+General:
+  -h, --help                Show this help
+  -v, --version             Show the version
+`;
+
+/**
+ * Parses a non-negative integer flag value.
+ */
+function parseInteger(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses a level flag that also accepts "auto".
+ */
+function parseLevel(name: string, value: string | undefined): number | 'auto' | undefined {
+  return value === 'auto' ? 'auto' : parseInteger(name, value);
+}
+
+/**
+ * Parses a comma-separated list of compression types.
+ */
+function parseTypes(value: string): CompressionType[] {
+  const valid = Object.values(CompressionType) as string[];
+  return value.split(',').map(type => {
+    const normalized = type.trim().toLowerCase();
+    if (!valid.includes(normalized)) {
+      throw new Error(`Unknown compression type "${type}". Expected one of: ${valid.join(', ')}`);
+    }
+    return normalized as CompressionType;
+  });
+}
+
+/**
+ * Rewrites a bare `--manifest` to `--manifest=`, so the flag works without a
+ * file name and never takes the directory that follows it as its value.
+ */
+function normalizeOptionalValues(args: string[]): string[] {
+  return args.map(arg => arg === '--manifest' ? '--manifest=' : arg);
+}
+
+/**
+ * Loads plugin options from a JSON or JavaScript config file.
+ */
+async function loadConfig(configPath: string): Promise<BrotliOptions> {
+  const resolved = path.resolve(configPath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  if (resolved.endsWith('.json')) {
+    return JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  }
+
+  const mod = await import(pathToFileURL(resolved).href);
+  return mod.default ?? mod;
+}
+
+/**
+ * Compresses a directory with options from flags and an optional config file.
+ */
+async function runCompress(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: normalizeOptionalValues(args),
+    allowPositionals: true,
+    options: {
+      type: { type: 'string', short: 't' },
+      quality: { type: 'string', short: 'q' },
+      'gzip-level': { type: 'string' },
+      'zstd-level': { type: 'string' },
+      'min-size': { type: 'string' },
+      'max-size': { type: 'string' },
+      extensions: { type: 'string', short: 'e' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'delete-original': { type: 'boolean' },
+      'skip-existing': { type: 'boolean' },
+      manifest: { type: 'string' },
+      config: { type: 'string', short: 'c' },
+      quiet: { type: 'boolean' }
+    }
+  });
+
+  const [dir] = positionals;
+  if (!dir || positionals.length > 1) {
+    throw new Error('Expected exactly one directory to compress');
+  }
+
+  const options: BrotliOptions = values.config ? await loadConfig(values.config) : {};
+
+  // Flags override values from the config file
+  if (values.type !== undefined) options.type = parseTypes(values.type);
+  if (values.quality !== undefined) options.quality = parseLevel('quality', values.quality);
+  if (values['gzip-level'] !== undefined) options.gzipLevel = parseLevel('gzip-level', values['gzip-level']);
+  if (values['zstd-level'] !== undefined) options.zstdLevel = parseInteger('zstd-level', values['zstd-level']);
+  if (values['min-size'] !== undefined) options.minSize = parseInteger('min-size', values['min-size']);
+  if (values['max-size'] !== undefined) options.maxSize = parseInteger('max-size', values['max-size']);
+  if (values.extensions !== undefined) options.extensions = values.extensions.split(',').map(ext => ext.trim().replace(/^\./, ''));
+  if (values.include !== undefined) options.includePatterns = values.include;
+  if (values.exclude !== undefined) options.excludePatterns = values.exclude;
+  if (values['delete-original']) options.deleteOriginal = true;
+  if (values['skip-existing']) options.skipExisting = true;
+  if (values.manifest !== undefined) options.manifest = values.manifest || true;
+  if (values.quiet) options.verbose = false;
+
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new Error(`Not a directory: ${dir}`);
+  }
+
+  const { stats } = await compressDirectory(dir, options);
+  return stats.failedFiles > 0 ? 1 : 0;
+}
+
+/**
+ * Lists which files in a directory have which encoded variants.
+ */
+async function runInspect(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      extensions: { type: 'string', short: 'e' },
+      json: { type: 'boolean' }
+    }
+  });
+
+  const [dir] = positionals;
+  if (!dir || positionals.length > 1) {
+    throw new Error('Expected exactly one directory to inspect');
+  }
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new Error(`Not a directory: ${dir}`);
+  }
+
+  const root = path.resolve(dir);
+  const files = await inspectDirectory(root, {
+    extensions: values.extensions?.split(',').map(ext => ext.trim().replace(/^\./, ''))
+  });
+
+  const rows = files.map(file => ({
+    file: path.relative(root, file.filePath).split(path.sep).join('/'),
+    size: file.originalSize,
+    variants: file.variants.map(variant => ({
+      encoding: variant.encoding,
+      path: path.relative(root, variant.path).split(path.sep).join('/'),
+      size: variant.size,
+      ratio: file.originalSize
+        ? Number((((file.originalSize - variant.size) / file.originalSize) * 100).toFixed(2))
+        : undefined
+    }))
+  }));
+
+  if (values.json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return 0;
+  }
+
+  if (rows.length === 0) {
+    console.log('No matching files found.');
+    return 0;
+  }
+
+  for (const row of rows) {
+    const original = row.size === undefined ? 'original deleted' : formatBytes(row.size);
+    const variants = row.variants.length === 0
+      ? 'no variants'
+      : row.variants
+        .map(variant => `${variant.encoding} ${formatBytes(variant.size)}${variant.ratio === undefined ? '' : ` (-${variant.ratio}%)`}`)
+        .join(', ');
+    console.log(`${row.file}  ${original}  ${variants}`);
+  }
+
+  return 0;
+}
+
+/**
+ * Runs the command-line interface and resolves with the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  try {
+    if (!command || command === '-h' || command === '--help') {
+      console.log(USAGE);
+      return command ? 0 : 1;
+    }
+
+    if (command === '-v' || command === '--version') {
+      const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'));
+      console.log(pkg.version);
+      return 0;
+    }
+
+    if (command === 'inspect') {
+      return await runInspect(rest);
+    }
+
+    return await runCompress(command === 'compress' ? rest : argv);
+  } catch (error) {
+    console.error(`[vite-plugin-brotli-compress] ${error instanceof Error ? error.message : error}`);
+    console.error(`Run "vite-plugin-brotli-compress --help" for usage.`);
+    return 1;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Formatting helpers shared by the plugin's logs and the CLI.
+ */
+
+/**
+ * Formats bytes into human-readable format.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+}
@@ -1,7 +1,19 @@
-import type { Plugin, ResolvedConfig } from 'vite';
+import type { Connect, Plugin, ResolvedConfig } from 'vite';
+import type { OutputBundle } from 'rollup';
+import type { OutgoingHttpHeader, OutgoingHttpHeaders, ServerResponse } from 'http';
 import path from 'path';
 import fs from 'fs';
 import zlib from 'zlib';
+import crypto from 'crypto';
+import os from 'os';
+import stream, { Readable, Transform, Writable } from 'stream';
+import { promisify } from 'util';
+import { zopfliGzip } from './zopfli';
+import { formatBytes } from './format';
+import { createWorkerPool, type EncoderOptions, type WorkerPool } from './worker-pool';
+
+// stream/promises needs Node.js 15
+const pipeline = promisify(stream.pipeline);
 
 /**
  * Compression algorithms supported by the plugin.
@@ -11,6 +23,8 @@ export enum CompressionType {
   BROTLI = 'brotli',
   /** Gzip compression only */
   GZIP = 'gzip',
+  /** Zstandard compression only */
+  ZSTD = 'zstd',
   /** Both Brotli and Gzip compression */
   BOTH = 'both'
 }
@@ -49,15 +63,32 @@ export enum GzipLevel {
   MAXIMUM = 9
 }
 
+/**
+ * Zstandard compression levels.
+ */
+export enum ZstdLevel {
+  /** Fastest compression */
+  FASTEST = 1,
+  /** Default compression */
+  DEFAULT = 3,
+  /** High compression */
+  HIGH = 12,
+  /** Ultra compression */
+  ULTRA = 19,
+  /** Maximum compression */
+  MAXIMUM = 22
+}
+
 /**
  * Interface for plugin options.
  */
 export interface BrotliOptions {
   /**
-   * Compression type to use.
+   * Compression type to use. Pass an array to produce any combination of
+   * encodings, e.g. `[CompressionType.BROTLI, CompressionType.ZSTD]`.
    * @default CompressionType.BROTLI
    */
-  type?: CompressionType;
+  type?: CompressionType | CompressionType[];
   /**
    * File extensions to compress.
    * @default ['js', 'html', 'css', 'json', 'ico', 'svg', 'wasm']
@@ -69,15 +100,39 @@ export interface BrotliOptions {
    */
   verbose?: boolean;
   /**
-   * Brotli compression quality level (0-11).
+   * Brotli compression quality level (0-11), or `'auto'` to try the
+   * qualities in `autoTune` on each file and keep the smallest output.
    * @default BrotliQuality.DEFAULT (6)
    */
-  quality?: BrotliQuality | number;
+  quality?: BrotliQuality | number | 'auto';
   /**
-   * Gzip compression level (0-9).
+   * Gzip compression level (0-9), or `'auto'` to try the levels in
+   * `autoTune` on each file and keep the smallest output.
    * @default GzipLevel.DEFAULT (6)
    */
-  gzipLevel?: GzipLevel | number;
+  gzipLevel?: GzipLevel | number | 'auto';
+  /**
+   * Candidate levels and time budgets for `'auto'` quality and gzip level.
+   * @default { qualities: [5, 9, 11], gzipLevels: [6, 9], fileTimeBudget: 2000 }
+   */
+  autoTune?: AutoTuneOptions;
+  /**
+   * Zstandard compression level (1-22). Requires Node.js 22.15 or later.
+   * @default ZstdLevel.DEFAULT (3)
+   */
+  zstdLevel?: ZstdLevel | number;
+  /**
+   * Advanced Brotli encoder parameters. The size hint is always set from
+   * the file size.
+   * @default { mode: 'auto' }
+   */
+  brotli?: BrotliEncoderOptions;
+  /**
+   * Gzip encoder strategy. `zopfli` trades much longer compression times for
+   * smaller standard gzip output.
+   * @default { strategy: 'zlib' }
+   */
+  gzip?: GzipEncoderOptions;
   /**
    * Minimum file size in bytes to compress (files smaller than this will be skipped).
    * @default 1024 (1KB)
@@ -88,11 +143,26 @@ export interface BrotliOptions {
    * @default undefined (no limit)
    */
   maxSize?: number;
+  /**
+   * Keep a variant only if its size divided by the original size is below
+   * this ratio. Variants that don't pay off, such as for already-compressed
+   * images or tiny minified files, are deleted and counted as skipped.
+   * Set it to `1` to discard variants that aren't smaller than the original.
+   * @default undefined (keep every variant)
+   */
+  minRatio?: number;
   /**
    * Whether to delete original files after compression.
    * @default false
    */
   deleteOriginal?: boolean;
+  /**
+   * Delete `.br`/`.gz`/`.zst` and other variants whose original no longer
+   * exists, e.g. left behind by earlier builds with `emptyOutDir: false`.
+   * Pass `{ dryRun: true }` to only report them.
+   * @default false
+   */
+  cleanStale?: boolean | CleanStaleOptions;
   /**
    * Custom function to determine if a file should be compressed.
    * @param filePath - The file path
@@ -116,12 +186,14 @@ export interface BrotliOptions {
    */
   parallel?: boolean;
   /**
-   * Maximum number of parallel compression operations.
-   * @default 10
+   * Maximum number of parallel compression operations. Each one runs on its
+   * own worker thread.
+   * @default the number of available CPUs
    */
   maxParallel?: number;
   /**
-   * Whether to skip compression if compressed file already exists.
+   * Whether to skip compression if every compressed variant already exists
+   * and is newer than the original file.
    * @default false
    */
   skipExisting?: boolean;
@@ -135,12 +207,143 @@ export interface BrotliOptions {
    * @default 0
    */
   retryAttempts?: number;
+  /**
+   * Decompress every variant after it is written and compare it with the
+   * original. A mismatch deletes the variant and fails the file, or retries
+   * it when `retryAttempts` allows.
+   * @default false
+   */
+  verify?: boolean;
+  /**
+   * Record SHA-256 Subresource Integrity digests (`sha256-...`) of each
+   * original and variant in the results.
+   * @default false
+   */
+  integrity?: boolean;
   /**
    * Callback function called when compression fails.
    * @param error - The error that occurred
    * @param filePath - The file path that failed
    */
   errorCallback?: (error: Error, filePath: string) => void;
+  /**
+   * Callback called after each file is processed, with its original size and
+   * the encoding, compressed size and duration of every variant written.
+   * @param file - The result for the file; `errors` lists any failures
+   */
+  onFileCompressed?: (file: CompressionFileResult) => void;
+  /**
+   * Callback called as each file finishes compressing. When `verbose` is on
+   * and stdout is a TTY, a live progress bar is shown as well.
+   * @param progress - Progress of the whole run
+   */
+  onProgress?: (progress: CompressionProgress) => void;
+  /**
+   * Compress responses served by `vite dev` according to the request's
+   * `Accept-Encoding` header. Pass an object to tune the middleware.
+   * @default false
+   */
+  devServer?: boolean | DevServerOptions;
+  /**
+   * Serve precompressed `.br`/`.gz`/`.zst` siblings from `vite preview` when
+   * the client accepts them, like nginx `brotli_static`.
+   * @default true
+   */
+  previewServer?: boolean;
+  /**
+   * Write a JSON manifest describing every compressed asset and its encoded
+   * variants. Pass a string to choose the file name, relative to `outDir`.
+   * @default false
+   */
+  manifest?: boolean | string;
+  /**
+   * Persist compressed output in a cache directory keyed by content hash,
+   * encoding and encoder parameters, so unchanged assets are restored instead
+   * of recompressed. `true` uses `<cacheDir>/brotli-compress` (by default
+   * `node_modules/.vite/brotli-compress`); a string sets the directory.
+   * @default false
+   */
+  cache?: boolean | string;
+  /**
+   * Compress chunks and assets in `generateBundle` and add the variants to
+   * the Rollup bundle with `this.emitFile`, instead of scanning `outDir`
+   * after the build. Variants are then visible to later plugins and also
+   * work with `build.write: false`.
+   * @default false
+   */
+  emitToBundle?: boolean;
+  /**
+   * Per-environment overrides keyed by environment name (e.g. `client`,
+   * `ssr`). `false` disables compression for that environment, `true`
+   * enables it with the top-level options, and an object overrides them.
+   * Server environments such as SSR builds are not compressed unless
+   * enabled here.
+   * @default {}
+   */
+  environments?: Record<string, boolean | EnvironmentOptions>;
+  /**
+   * Maximum compressed sizes for matching files. A budget with severity
+   * `error` fails the build when exceeded; `warn` only reports it.
+   * @default []
+   */
+  budgets?: CompressionBudget[];
+  /**
+   * Per-file overrides for the files selected by `extensions`. The first
+   * rule that matches a file wins; settings it doesn't set fall back to the
+   * top-level options.
+   * @default []
+   */
+  rules?: CompressionRule[];
+  /**
+   * Path to the compression manifest of a previous build, such as a
+   * committed JSON file, relative to the project root. After compressing,
+   * the plugin logs which assets were added, removed, grew or shrank,
+   * matching hashed file names by their stable name portion.
+   * @default undefined
+   */
+  baseline?: string;
+  /**
+   * Reports to write after compression, for CI. Each entry is a format or
+   * `{ type, outputFile }`; output files are relative to the project root.
+   * @default []
+   */
+  reporters?: (ReporterType | ReporterOptions)[];
+  /**
+   * Compression Dictionary Transport: pair each asset with its predecessor
+   * in a previous release and write zstd dictionary-compressed variants
+   * (`.dcz`) plus the header metadata needed to serve them. Node.js can't
+   * compress Brotli with a shared dictionary, so no `.dcb` variants are written.
+   * @default undefined
+   */
+  dictionary?: DictionaryOptions;
+  /**
+   * Custom encoders that run on every compressed file in addition to the
+   * built-in encodings selected by `type`, such as a Zopfli gzip encoder, a
+   * WASM encoder or an external binary.
+   * @default []
+   */
+  compressors?: CustomCompressor[];
+}
+
+/**
+ * Options that can be overridden for a single build environment.
+ */
+export type EnvironmentOptions = Omit<BrotliOptions, 'environments' | 'devServer' | 'previewServer'>;
+
+/**
+ * Options for the dev server compression middleware.
+ */
+export interface DevServerOptions {
+  /**
+   * Minimum response size in bytes to compress.
+   * @default 1024 (1KB)
+   */
+  minSize?: number;
+  /**
+   * Maximum number of compressed responses kept in the in-memory cache.
+   * @default 500
+   */
+  cacheSize?: number;
 }
 
 /**
@@ -157,6 +360,60 @@ export interface CompressionStats {
   timeElapsed: number;
   brotliFiles?: number;
   gzipFiles?: number;
+  zstdFiles?: number;
+  cachedFiles?: number;
+  /** Number of variants per level chosen by `'auto'` tuning, keyed by encoding */
+  tunedLevels?: Partial<Record<CompressionType, Record<number, number>>>;
+}
+
+/**
+ * An encoded variant listed in the compression manifest.
+ */
+export interface ManifestVariant {
+  /** Path of the variant relative to the output directory */
+  path: string;
+  /** Compressed size in bytes */
+  size: number;
+  /** Percentage of bytes saved relative to the original */
+  ratio: number;
+  /** Level chosen by `'auto'` tuning */
+  level?: number;
+}
+
+/**
+ * A source file listed in the compression manifest.
+ */
+export interface ManifestEntry {
+  /** Original size in bytes */
+  size: number;
+  /** SHA-256 hash of the original content (hex) */
+  hash: string;
+  /** Whether the original was removed by `deleteOriginal` */
+  deleted: boolean;
+  /** Encoded variants keyed by `Content-Encoding` token (`br`, `gzip`, `zstd`), empty when none was kept */
+  variants: Record<string, ManifestVariant>;
+}
+
+/**
+ * Machine-readable record of a compression run, written when `manifest` is enabled.
+ */
+export interface CompressionManifest {
+  version: 1;
+  generatedAt: string;
+  settings: {
+    encodings: string[];
+    quality: number | 'auto';
+    gzipLevel: number | 'auto';
+    zstdLevel: number;
+    /** Candidate levels keyed by `Content-Encoding` token, for levels set to `'auto'` */
+    autoLevels?: Record<string, number[]>;
+    extensions: string[];
+    minSize: number;
+    maxSize?: number;
+    deleteOriginal: boolean;
+  };
+  /** Source files keyed by path relative to the output directory */
+  files: Record<string, ManifestEntry>;
 }
 
 /**
@@ -170,545 +427,3954 @@ export interface CompressionProgress {
 }
 
 /**
- * Simple glob pattern matching function.
+ * An encoded variant written for a file.
  */
-function matchesPattern(filePath: string, patterns: string[]): boolean {
-  if (patterns.length === 0) return true;
-  
-  return patterns.some(pattern => {
-    // Convert glob pattern to regex
-    const regexPattern = pattern
-      .replace(/\*\*/g, '.*')  // ** matches any path
-      .replace(/\*/g, '[^/]*') // * matches any chars except /
-      .replace(/\?/g, '.')     // ? matches single char
-      .replace(/\./g, '\\.');   // Escape dots
-    
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(filePath);
-  });
+export interface CompressionVariantResult {
+  /** Encoding used for the variant, or the name of a custom compressor */
+  encoding: CompressionType | string;
+  /** Absolute path of the variant */
+  path: string;
+  /** Compressed size in bytes */
+  size: number;
+  /** Time spent producing the variant in milliseconds (not set by inspectDirectory) */
+  duration?: number;
+  /** Level chosen by `'auto'` tuning */
+  level?: number;
+  /** SRI digest of the variant, when `integrity` is enabled */
+  integrity?: string;
 }
 
 /**
- * Determines if a file should be compressed based on patterns and size.
+ * Result of compressing a single file.
  */
-function shouldCompressFile(
-  filePath: string, 
-  fileSize: number, 
-  minSize: number, 
-  maxSize: number | undefined,
-  excludePatterns: string[],
-  includePatterns: string[],
-  shouldCompress?: (filePath: string, fileSize: number) => boolean
-): boolean {
-  // Check file size limits
-  if (fileSize < minSize) return false;
-  if (maxSize && fileSize > maxSize) return false;
-  
-  // Check include patterns first (they override exclude patterns)
-  if (includePatterns.length > 0) {
-    return matchesPattern(filePath, includePatterns);
-  }
-  
-  // Check exclude patterns
-  if (excludePatterns.length > 0 && matchesPattern(filePath, excludePatterns)) {
-    return false;
-  }
-  
-  // Use custom shouldCompress function if provided
-  if (shouldCompress) {
-    return shouldCompress(filePath, fileSize);
-  }
-  
-  return true;
+export interface CompressionFileResult {
+  /** Absolute path of the source file */
+  filePath: string;
+  /** Original size in bytes */
+  originalSize: number;
+  /** SRI digest of the original, when `integrity` is enabled */
+  integrity?: string;
+  /** Whether the original was removed by `deleteOriginal` */
+  deleted: boolean;
+  /** Variants that were written successfully */
+  variants: CompressionVariantResult[];
+  /** Variants discarded because they didn't save enough bytes */
+  skipped: CompressionSkippedVariant[];
+  /** Messages of the errors that prevented variants from being written */
+  errors: string[];
 }
 
 /**
- * Checks if a compressed file already exists.
+ * A variant discarded because it didn't pay off.
  */
-function compressedFileExists(filePath: string, type: CompressionType): boolean {
-  if (type === CompressionType.BROTLI || type === CompressionType.BOTH) {
-    if (fs.existsSync(`${filePath}.br`)) return true;
-  }
-  if (type === CompressionType.GZIP || type === CompressionType.BOTH) {
-    if (fs.existsSync(`${filePath}.gz`)) return true;
-  }
-  return false;
+export interface CompressionSkippedVariant {
+  /** Encoding of the discarded variant, or the name of a custom compressor */
+  encoding: CompressionType | string;
+  /** Why the variant was discarded */
+  reason: string;
 }
 
 /**
- * The main plugin function.
+ * Options for compressDirectory.
  */
-export default function brotliCompress(options: BrotliOptions = {}): Plugin {
-  let viteConfig: ResolvedConfig;
+export interface CompressDirectoryOptions extends BrotliOptions {
+  /**
+   * Signal to abort compression. Files already in progress finish, no new
+   * files are started, and the returned promise rejects with an AbortError.
+   */
+  signal?: AbortSignal;
+}
 
-  // Set default options
-  const {
-    type = CompressionType.BROTLI,
-    extensions = ['js', 'html', 'css', 'json', 'ico', 'svg', 'wasm'],
-    verbose = true,
-    quality = BrotliQuality.DEFAULT,
-    gzipLevel = GzipLevel.DEFAULT,
-    minSize = 1024,
-    maxSize,
-    deleteOriginal = false,
-    shouldCompress,
-    excludePatterns = [],
-    includePatterns = [],
-    parallel = true,
-    maxParallel = 10,
-    skipExisting = false,
-    continueOnError = true,
-    retryAttempts = 0,
-    errorCallback
-  } = options;
+/**
+ * Options for removing stale variants.
+ */
+export interface CleanStaleOptions {
+  /**
+   * Only report the stale variants instead of deleting them.
+   * @default false
+   */
+  dryRun?: boolean;
+}
 
-  return {
-    name: 'vite-plugin-brotli-compress',
+/**
+ * Result of compressDirectory.
+ */
+export interface CompressDirectoryResult {
+  stats: CompressionStats;
+  files: CompressionFileResult[];
+  /** Files skipped by `skipExisting`, described from the variants already on disk */
+  upToDateFiles?: CompressionFileResult[];
+  /** Absolute paths of the stale variants removed (or found, in a dry run) by `cleanStale` */
+  staleVariants?: string[];
+}
 
-    // Hook into the resolved Vite configuration.
-    configResolved(resolvedConfig) {
-      viteConfig = resolvedConfig;
-    },
+/**
+ * A source file and the encoded variants found next to it by inspectDirectory.
+ */
+export interface InspectedFile {
+  /** Absolute path of the source file */
+  filePath: string;
+  /** Original size in bytes, or undefined if the original no longer exists */
+  originalSize?: number;
+  /** Encoded variants found on disk */
+  variants: CompressionVariantResult[];
+}
 
-    // Hook that runs after the bundle is generated and written to disk.
-    async closeBundle() {
-      const startTime = Date.now();
-      const outDir = viteConfig.build.outDir;
-      
-      if (verbose) {
-        const compressionType = type === CompressionType.BOTH ? 'Brotli and Gzip' : 
-                               type === CompressionType.GZIP ? 'Gzip' : 'Brotli';
-        console.log(`\n[vite-plugin-brotli-compress] Starting ${compressionType} compression...`);
-      }
+/**
+ * Candidate levels and time budgets for `'auto'` quality tuning.
+ */
+export interface AutoTuneOptions {
+  /**
+   * Brotli qualities to try, from the fastest up.
+   * @default [5, 9, 11]
+   */
+  qualities?: number[];
+  /**
+   * Gzip levels to try, from the fastest up.
+   * @default [6, 9]
+   */
+  gzipLevels?: number[];
+  /**
+   * Time in milliseconds to spend per file and encoding. Higher levels are
+   * skipped once the next attempt would likely reach it.
+   * @default 2000
+   */
+  fileTimeBudget?: number;
+  /**
+   * Time in milliseconds to spend tuning across the whole run. Once it is
+   * used up, remaining files only try the first candidate.
+   * @default undefined (no limit)
+   */
+  totalTimeBudget?: number;
+}
 
-      try {
-        // Find all files in the output directory that match the extensions.
-        const filesToCompress = await findFiles(
-          outDir, 
-          extensions, 
-          minSize, 
-          maxSize,
-          excludePatterns,
-          includePatterns,
-          shouldCompress,
-          skipExisting,
-          type
-        );
-
-        if (filesToCompress.length === 0) {
-          if (verbose) {
-            console.log('[vite-plugin-brotli-compress] No matching files found to compress.');
-          }
-          return;
-        }
+/**
+ * Brotli compression mode hint. `auto` picks `text` or `font` from the file
+ * extension and `generic` for everything else.
+ */
+export type BrotliMode = 'auto' | 'generic' | 'text' | 'font';
 
-        // Compress files
-        const stats = await compressFiles(filesToCompress, {
-          type,
-          quality,
-          gzipLevel,
-          deleteOriginal,
-          parallel,
-          maxParallel,
-          verbose,
-          continueOnError,
-          retryAttempts,
-          errorCallback
-        });
-
-        const timeElapsed = Date.now() - startTime;
-        stats.timeElapsed = timeElapsed;
+/**
+ * Advanced Brotli encoder parameters.
+ */
+export interface BrotliEncoderOptions {
+  /**
+   * Compression mode (`BROTLI_PARAM_MODE`).
+   * @default 'auto'
+   */
+  mode?: BrotliMode;
+  /**
+   * Base-2 logarithm of the sliding window size (`BROTLI_PARAM_LGWIN`),
+   * 10-24, or up to 30 with `largeWindow`.
+   * @default 22
+   */
+  lgwin?: number;
+  /**
+   * Base-2 logarithm of the maximum input block size
+   * (`BROTLI_PARAM_LGBLOCK`), 16-24. Unset lets the encoder choose.
+   * @default undefined
+   */
+  lgblock?: number;
+  /**
+   * Allow windows larger than 16 MiB (`BROTLI_PARAM_LARGE_WINDOW`). The
+   * output is not standard Brotli and browsers can't decode it.
+   * @default false
+   */
+  largeWindow?: boolean;
+}
 
-        if (verbose) {
-          logCompressionResults(stats, type);
-        }
-      } catch (error) {
-        console.error('[vite-plugin-brotli-compress] Error during compression:', error);
-        if (!continueOnError) {
-          throw error;
-        }
-      }
-    },
-  };
+/**
+ * Gzip encoder settings.
+ */
+export interface GzipEncoderOptions {
+  /**
+   * `zlib` uses Node's deflate at `gzipLevel`. `zopfli` searches for the
+   * smallest deflate encoding over several iterations, typically 3-8% smaller
+   * than level 9 but around a hundred times slower; `gzipLevel` is ignored.
+   * Like zlib, Zopfli runs on the worker threads when `parallel` is on.
+   * @default 'zlib'
+   */
+  strategy?: 'zlib' | 'zopfli';
+  /**
+   * Optimization passes per deflate block for `zopfli`. More passes rarely
+   * gain more than a fraction of a percent.
+   * @default 15
+   */
+  iterations?: number;
 }
 
 /**
- * Interface for compression options used internally.
+ * Compression settings for the files matching a glob pattern or extension.
  */
-interface CompressionOptions {
-  type: CompressionType;
-  quality: BrotliQuality | number;
-  gzipLevel: GzipLevel | number;
-  deleteOriginal: boolean;
-  parallel: boolean;
-  maxParallel: number;
-  verbose: boolean;
-  continueOnError: boolean;
-  retryAttempts: number;
-  errorCallback?: (error: Error, filePath: string) => void;
+export interface CompressionRule {
+  /**
+   * Glob pattern(s) matched against the path relative to the output
+   * directory (e.g. `assets/vendor-*.js`).
+   */
+  match?: string | string[];
+  /** File extensions to match, e.g. `['map']` */
+  extensions?: string[];
+  /**
+   * Set to `false` to never compress matching files.
+   * @default true
+   */
+  compress?: boolean;
+  /** Compression type(s) for matching files */
+  type?: CompressionType | CompressionType[];
+  /** Brotli compression quality level (0-11) or `'auto'` */
+  quality?: BrotliQuality | number | 'auto';
+  /** Gzip compression level (0-9) or `'auto'` */
+  gzipLevel?: GzipLevel | number | 'auto';
+  /** Zstandard compression level (1-22) */
+  zstdLevel?: ZstdLevel | number;
+  /** Brotli encoder parameters, merged over the top-level `brotli` option */
+  brotli?: BrotliEncoderOptions;
+  /** Gzip encoder settings, merged over the top-level `gzip` option */
+  gzip?: GzipEncoderOptions;
+  /** Minimum file size in bytes to compress */
+  minSize?: number;
+  /** Maximum file size in bytes to compress */
+  maxSize?: number;
 }
 
 /**
- * Recursively finds all files with given extensions in a directory.
+ * Maximum compressed sizes for the files matching a pattern.
  */
-async function findFiles(
-  dir: string, 
-  extensions: string[], 
-  minSize: number,
-  maxSize: number | undefined,
-  excludePatterns: string[],
-  includePatterns: string[],
-  shouldCompress?: (filePath: string, fileSize: number) => boolean,
+export interface CompressionBudget {
+  /**
+   * Glob pattern matched against the path relative to the output directory
+   * (e.g. `assets/index-*.js`), or the name of an entry chunk (e.g. `index`).
+   */
+  match: string;
+  /** Maximum Brotli size in bytes */
+  brotli?: number;
+  /** Maximum Gzip size in bytes */
+  gzip?: number;
+  /** Maximum Zstandard size in bytes */
+  zstd?: number;
+  /**
+   * Whether exceeding the budget fails the build or only logs a warning.
+   * @default 'error'
+   */
+  severity?: 'warn' | 'error';
+}
+
+/**
+ * Result of checking a compressed variant against its budget.
+ */
+export interface BudgetCheck {
+  /** Path of the source file relative to the output directory */
+  file: string;
+  /** Encoding of the variant */
+  encoding: CompressionType;
+  /** Compressed size in bytes */
+  size: number;
+  /** Budget in bytes */
+  limit: number;
+  /** Severity of the budget */
+  severity: 'warn' | 'error';
+  /** Whether the size is over the budget */
+  exceeded: boolean;
+}
+
+/**
+ * Formats a compression report can be written in.
+ */
+export type ReporterType = 'json' | 'markdown' | 'junit';
+
+/**
+ * A compression report to write after each run.
+ */
+export interface ReporterOptions {
+  type: ReporterType;
+  /**
+   * Output path, relative to the project root.
+   * @default 'compression-report.json', 'compression-report.md' or 'compression-report.xml'
+   */
+  outputFile?: string;
+}
+
+/**
+ * An encoded variant listed in a compression report.
+ */
+export interface CompressionReportVariant extends ManifestVariant {
+  /** Time spent producing the variant in milliseconds */
+  duration: number;
+}
+
+/**
+ * A source file listed in a compression report.
+ */
+export interface CompressionReportFile {
+  /** Path relative to the output directory */
+  file: string;
+  /** Original size in bytes */
+  originalSize: number;
+  /** Whether the original was removed by `deleteOriginal` */
+  deleted: boolean;
+  /** Encoded variants keyed by `Content-Encoding` token (`br`, `gzip`, `zstd`) */
+  variants: Record<string, CompressionReportVariant>;
+  /** Total time spent on the file's variants in milliseconds */
+  duration: number;
+  /** Variants discarded because they didn't save enough bytes */
+  skipped: CompressionSkippedVariant[];
+  /** Messages of the errors that prevented variants from being written */
+  errors: string[];
+  /** Whether the file was skipped by `skipExisting` and described from its variants on disk */
+  upToDate?: boolean;
+}
+
+/**
+ * Contents of the JSON report, also used to render the other formats.
+ */
+export interface CompressionReport {
+  version: 1;
+  generatedAt: string;
+  /** Absolute path of the compressed directory */
+  outDir: string;
+  /** `Content-Encoding` tokens of the requested encodings */
+  encodings: string[];
+  stats: CompressionStats;
+  files: CompressionReportFile[];
+  budgets: BudgetCheck[];
+}
+
+/**
+ * A custom encoder registered through the `compressors` option.
+ */
+export interface CustomCompressor {
+  /** Unique name, used in logs and as the variant's `encoding` in results */
+  name: string;
+  /** Extension of the output file without the dot, e.g. `zz` */
+  extension: string;
+  /** `Content-Encoding` token of the output, e.g. `deflate`. Must not be a built-in token */
+  contentEncoding: string;
+  /**
+   * Encodes a file's contents. Return the encoded bytes, or a stream that
+   * the contents are written to and the encoded bytes are read from.
+   */
+  encode: (input: Buffer, context: { filePath: string }) => Promise<Uint8Array> | NodeJS.ReadWriteStream;
+  /**
+   * Decodes the output of `encode`, used by `verify`. Variants of
+   * compressors without it are not verified.
+   */
+  decode?: (input: Buffer) => Promise<Uint8Array>;
+}
+
+/**
+ * Options for Compression Dictionary Transport.
+ */
+export interface DictionaryOptions {
+  /**
+   * Directory holding the previous release, relative to the project root.
+   * Its files are matched to new assets by stable name (the file name
+   * without its content hash) and used as dictionaries.
+   */
+  previousBuild: string;
+  /**
+   * URL path the output directory is served from, used in the
+   * `Use-As-Dictionary` match patterns.
+   * @default '/'
+   */
+  base?: string;
+  /**
+   * Name of the metadata file written to the output directory.
+   * @default 'compression-dictionaries.json'
+   */
+  metadataFile?: string;
+}
+
+/**
+ * Dictionary metadata for one asset.
+ */
+export interface DictionaryMetadataEntry {
+  /** `Use-As-Dictionary` response header value for the asset */
+  useAsDictionary: string;
+  /** Dictionary-compressed variants of the asset, if any */
+  dictionary?: {
+    /** Previous version of the asset, relative to the previous build */
+    file: string;
+    /** `Available-Dictionary` request header value that selects these variants */
+    availableDictionary: string;
+    /** Variant paths relative to the output directory, keyed by content encoding (`dcz`) */
+    variants: Record<string, string>;
+  };
+}
+
+/**
+ * Contents of the dictionary metadata file.
+ */
+export interface DictionaryMetadata {
+  version: 1;
+  /** Entries keyed by path relative to the output directory */
+  files: Record<string, DictionaryMetadataEntry>;
+}
+
+/**
+ * A single output encoding produced by the plugin.
+ */
+type Encoding = CompressionType.BROTLI | CompressionType.GZIP | CompressionType.ZSTD;
+
+/**
+ * File extensions written for each encoding.
+ */
+const ENCODING_EXTENSIONS: Record<Encoding, string> = {
+  [CompressionType.BROTLI]: 'br',
+  [CompressionType.GZIP]: 'gz',
+  [CompressionType.ZSTD]: 'zst'
+};
+
+/**
+ * Human-readable names for each encoding.
+ */
+const ENCODING_NAMES: Record<Encoding, string> = {
+  [CompressionType.BROTLI]: 'Brotli',
+  [CompressionType.GZIP]: 'Gzip',
+  [CompressionType.ZSTD]: 'Zstandard'
+};
+
+/**
+ * `Content-Encoding` tokens for each encoding.
+ */
+const ENCODING_TOKENS: Record<Encoding, string> = {
+  [CompressionType.BROTLI]: 'br',
+  [CompressionType.GZIP]: 'gzip',
+  [CompressionType.ZSTD]: 'zstd'
+};
+
+/**
+ * Expands a compression type (or list of types) into the distinct encodings to produce.
+ */
+function resolveEncodings(type: CompressionType | CompressionType[]): Encoding[] {
+  const types = Array.isArray(type) ? type : [type];
+  const encodings: Encoding[] = [];
+
+  for (const t of types) {
+    const expanded = t === CompressionType.BOTH
+      ? [CompressionType.BROTLI, CompressionType.GZIP] as Encoding[]
+      : [t as Encoding];
+    for (const encoding of expanded) {
+      if (!encodings.includes(encoding)) {
+        encodings.push(encoding);
+      }
+    }
+  }
+
+  return encodings;
+}
+
+/**
+ * Describes a list of encodings for log output, e.g. "Brotli and Gzip".
+ */
+function describeEncodings(encodings: Encoding[], compressors: CustomCompressor[] = []): string {
+  const names = [...encodings.map(encoding => ENCODING_NAMES[encoding]), ...compressors.map(compressor => compressor.name)];
+  if (names.length <= 1) return names[0] || 'Brotli';
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Simple glob pattern matching function.
+ */
+function matchesPattern(filePath: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return true;
+  
+  return patterns.some(pattern => {
+    // Convert glob pattern to regex
+    const regexPattern = pattern
+      .replace(/\*\*/g, '.*')  // ** matches any path
+      .replace(/\*/g, '[^/]*') // * matches any chars except /
+      .replace(/\?/g, '.')     // ? matches single char
+      .replace(/\./g, '\\.');   // Escape dots
+    
+    const regex = new RegExp(`^${regexPattern}$`);
+    return regex.test(filePath);
+  });
+}
+
+/**
+ * Matches a path relative to the output directory against a glob, as used by
+ * `rules` and `budgets`. `*` and `?` stay within one path segment, `**`
+ * crosses segments and a leading `**\/` also matches files at the top level.
+ */
+function matchesGlob(relativePath: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape regex characters
+    .replace(/\*\*\//g, '\0')              // Placeholder for **/
+    .replace(/\*\*/g, '\x01')              // Placeholder for **
+    .replace(/\*/g, '[^/]*')               // * matches any chars except /
+    .replace(/\?/g, '[^/]')                // ? matches single char
+    .replace(/\0/g, '(?:.*/)?')            // **/ matches any leading directories
+    .replace(/\x01/g, '.*');               // ** matches any path
+
+  return new RegExp(`^${regexPattern}$`).test(relativePath.split(path.sep).join('/'));
+}
+
+/**
+ * Determines if a file should be compressed based on patterns and size.
+ */
+function shouldCompressFile(
+  filePath: string, 
+  fileSize: number, 
+  minSize: number, 
+  maxSize: number | undefined,
+  excludePatterns: string[],
+  includePatterns: string[],
+  shouldCompress?: (filePath: string, fileSize: number) => boolean
+): boolean {
+  // Check file size limits
+  if (fileSize < minSize) return false;
+  if (maxSize && fileSize > maxSize) return false;
+  
+  // Check include patterns first (they override exclude patterns)
+  if (includePatterns.length > 0) {
+    return matchesPattern(filePath, includePatterns);
+  }
+  
+  // Check exclude patterns
+  if (excludePatterns.length > 0 && matchesPattern(filePath, excludePatterns)) {
+    return false;
+  }
+  
+  // Use custom shouldCompress function if provided
+  if (shouldCompress) {
+    return shouldCompress(filePath, fileSize);
+  }
+  
+  return true;
+}
+
+/**
+ * Checks if every compressed variant already exists and is not older than the original.
+ */
+function compressedFileExists(filePath: string, encodings: Encoding[], compressors: CustomCompressor[] = []): boolean {
+  // Variants copy the original's mtime, which utimes can land just below it
+  const originalTime = fs.statSync(filePath).mtimeMs - 1;
+  const extensions = [
+    ...encodings.map(encoding => ENCODING_EXTENSIONS[encoding]),
+    ...compressors.map(compressor => compressor.extension)
+  ];
+  return extensions.every(extension => {
+    const compressedPath = `${filePath}.${extension}`;
+    return fs.existsSync(compressedPath) && fs.statSync(compressedPath).mtimeMs > originalTime;
+  });
+}
+
+/**
+ * Returns the file extension of a built-in encoding or custom compressor.
+ */
+function getEncodingExtension(encoding: string, compressors: CustomCompressor[]): string {
+  return ENCODING_EXTENSIONS[encoding as Encoding] ??
+    compressors.find(compressor => compressor.name === encoding)?.extension ?? encoding;
+}
+
+/**
+ * Returns the `Content-Encoding` token of a built-in encoding or custom compressor.
+ */
+function getEncodingToken(encoding: string, compressors: CustomCompressor[]): string {
+  return ENCODING_TOKENS[encoding as Encoding] ??
+    compressors.find(compressor => compressor.name === encoding)?.contentEncoding ?? encoding;
+}
+
+/**
+ * Rejects custom compressors whose names or output files clash with the
+ * built-in encodings in use, including those added by rules, or with each other.
+ * Their `Content-Encoding` must not be a built-in token, which manifests,
+ * reports and the preview server already map to a built-in encoding.
+ */
+function validateCompressors(compressors: CustomCompressor[], encodings: Encoding[]): void {
+  const reserved = Object.values(CompressionType) as string[];
+  const tokens = new Map<string, string>(
+    (Object.keys(ENCODING_TOKENS) as Encoding[]).map(encoding => [ENCODING_TOKENS[encoding], ENCODING_NAMES[encoding]])
+  );
+  const extensions = new Map<string, string>(encodings.map(encoding => [ENCODING_EXTENSIONS[encoding], ENCODING_NAMES[encoding]]));
+  const names = new Set<string>();
+
+  for (const compressor of compressors) {
+    if (reserved.includes(compressor.name) || names.has(compressor.name)) {
+      throw new Error(`[vite-plugin-brotli-compress] Compressor name "${compressor.name}" is already in use`);
+    }
+    const builtIn = tokens.get(compressor.contentEncoding.toLowerCase());
+    if (builtIn) {
+      throw new Error(
+        `[vite-plugin-brotli-compress] Compressor "${compressor.name}" uses the Content-Encoding "${compressor.contentEncoding}" ` +
+        `of the built-in ${builtIn} encoding; give it a token of its own`
+      );
+    }
+    const owner = extensions.get(compressor.extension);
+    if (owner) {
+      throw new Error(`[vite-plugin-brotli-compress] Compressor "${compressor.name}" writes .${compressor.extension} files, which ${owner} also writes`);
+    }
+    names.add(compressor.name);
+    extensions.set(compressor.extension, compressor.name);
+  }
+}
+
+/**
+ * Settings that rules can override for a single file.
+ */
+type FileSettings = Pick<ResolvedOptions, 'encodings' | 'compressors' | 'quality' | 'gzipLevel' | 'zstdLevel' | 'autoLevels' | 'brotli' | 'gzip' | 'minSize' | 'maxSize'>;
+
+/**
+ * Candidate levels to try per encoding, for encodings set to `'auto'`.
+ */
+type AutoLevels = Partial<Record<Encoding, number[]>>;
+
+/**
+ * Tuning time left for a file and for the whole run, in milliseconds.
+ */
+interface TimeBudget {
+  file: number;
+  remaining: number;
+}
+
+/**
+ * Defaults for `autoTune`.
+ */
+const AUTO_TUNE_DEFAULTS = {
+  qualities: [5, 9, 11],
+  gzipLevels: [6, 9],
+  fileTimeBudget: 2000
+};
+
+/**
+ * Resolves which encodings are tuned automatically and their candidate
+ * levels, sorted from the fastest up. Levels left unset keep `inherited`.
+ */
+function resolveAutoLevels(
+  quality: BrotliOptions['quality'],
+  gzipLevel: BrotliOptions['gzipLevel'],
+  autoTune: AutoTuneOptions,
+  inherited: AutoLevels = {}
+): AutoLevels {
+  const candidates: AutoLevels = {
+    [CompressionType.BROTLI]: quality === 'auto'
+      ? autoTune.qualities ?? AUTO_TUNE_DEFAULTS.qualities
+      : quality === undefined ? inherited[CompressionType.BROTLI] : undefined,
+    [CompressionType.GZIP]: gzipLevel === 'auto'
+      ? autoTune.gzipLevels ?? AUTO_TUNE_DEFAULTS.gzipLevels
+      : gzipLevel === undefined ? inherited[CompressionType.GZIP] : undefined
+  };
+
+  const levels: AutoLevels = {};
+  for (const [encoding, values] of Object.entries(candidates) as [Encoding, number[] | undefined][]) {
+    if (values && values.length > 0) {
+      levels[encoding] = [...values].sort((a, b) => a - b);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Checks if a rule applies to a path relative to the output directory.
+ * A rule without `match` or `extensions` applies to every file.
+ */
+function matchesRule(rule: CompressionRule, relativePath: string): boolean {
+  const patterns = rule.match === undefined ? [] : [rule.match].flat();
+  const extensions = rule.extensions ?? [];
+  if (patterns.length === 0 && extensions.length === 0) return true;
+
+  const ext = path.extname(relativePath).slice(1);
+  return extensions.some(e => e.replace(/^\./, '') === ext) ||
+    patterns.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Creates a lookup for the settings of each file under `outDir`. Returns
+ * undefined for files that a rule excludes from compression.
+ */
+function createRuleResolver(
+  settings: ResolvedOptions,
+  outDir: string
+): (filePath: string) => FileSettings | undefined {
+  const defaults: FileSettings = {
+    encodings: settings.encodings,
+    compressors: settings.compressors,
+    quality: settings.quality,
+    gzipLevel: settings.gzipLevel,
+    zstdLevel: settings.zstdLevel,
+    autoLevels: settings.autoLevels,
+    brotli: settings.brotli,
+    gzip: settings.gzip,
+    minSize: settings.minSize,
+    maxSize: settings.maxSize
+  };
+
+  return filePath => {
+    const relativePath = toOutDirPath(outDir, filePath);
+    const rule = settings.rules.find(candidate => matchesRule(candidate, relativePath));
+    if (!rule) return defaults;
+    if (rule.compress === false) return undefined;
+
+    return {
+      encodings: rule.type === undefined ? defaults.encodings : resolveEncodings(rule.type),
+      compressors: defaults.compressors,
+      quality: typeof rule.quality === 'number' ? rule.quality : defaults.quality,
+      gzipLevel: typeof rule.gzipLevel === 'number' ? rule.gzipLevel : defaults.gzipLevel,
+      zstdLevel: rule.zstdLevel ?? defaults.zstdLevel,
+      autoLevels: resolveAutoLevels(rule.quality, rule.gzipLevel, settings.autoTune, defaults.autoLevels),
+      brotli: { ...defaults.brotli, ...rule.brotli },
+      gzip: { ...defaults.gzip, ...rule.gzip },
+      minSize: rule.minSize ?? defaults.minSize,
+      maxSize: rule.maxSize ?? defaults.maxSize
+    };
+  };
+}
+
+/**
+ * Lists every encoding a run may produce, including those only set by rules.
+ */
+function getAllEncodings(settings: ResolvedOptions): Encoding[] {
+  const encodings = [...settings.encodings];
+  for (const rule of settings.rules) {
+    if (rule.type === undefined || rule.compress === false) continue;
+    for (const encoding of resolveEncodings(rule.type)) {
+      if (!encodings.includes(encoding)) {
+        encodings.push(encoding);
+      }
+    }
+  }
+  return encodings;
+}
+
+/**
+ * Options after defaults have been applied, used internally.
+ */
+type ResolvedOptions = Required<Omit<BrotliOptions, 'type' | 'quality' | 'gzipLevel' | 'maxSize' | 'minRatio' | 'shouldCompress' | 'errorCallback' | 'onFileCompressed' | 'onProgress' | 'environments' | 'baseline' | 'dictionary'>> &
+  Pick<BrotliOptions, 'maxSize' | 'minRatio' | 'shouldCompress' | 'errorCallback' | 'onFileCompressed' | 'onProgress' | 'baseline' | 'dictionary'> & {
+    encodings: Encoding[];
+    quality: number;
+    gzipLevel: number;
+    autoLevels: AutoLevels;
+    manifestFileName?: string;
+  };
+
+/**
+ * Applies default values to plugin options.
+ */
+function resolveOptions(options: BrotliOptions): ResolvedOptions {
+  // Set default options
+  const {
+    type = CompressionType.BROTLI,
+    extensions = ['js', 'html', 'css', 'json', 'ico', 'svg', 'wasm'],
+    verbose = true,
+    quality = BrotliQuality.DEFAULT,
+    gzipLevel = GzipLevel.DEFAULT,
+    zstdLevel = ZstdLevel.DEFAULT,
+    autoTune = {},
+    brotli = {},
+    gzip = {},
+    minSize = 1024,
+    maxSize,
+    minRatio,
+    deleteOriginal = false,
+    cleanStale = false,
+    shouldCompress,
+    excludePatterns = [],
+    includePatterns = [],
+    parallel = true,
+    maxParallel = getAvailableParallelism(),
+    skipExisting = false,
+    continueOnError = true,
+    retryAttempts = 0,
+    verify = false,
+    integrity = false,
+    errorCallback,
+    onFileCompressed,
+    onProgress,
+    devServer = false,
+    previewServer = true,
+    manifest = false,
+    cache = false,
+    emitToBundle = false,
+    budgets = [],
+    rules = [],
+    baseline,
+    reporters = [],
+    dictionary,
+    compressors = []
+  } = options;
+
+  const settings: ResolvedOptions = {
+    encodings: resolveEncodings(type),
+    extensions,
+    verbose,
+    quality: quality === 'auto' ? BrotliQuality.DEFAULT : quality,
+    gzipLevel: gzipLevel === 'auto' ? GzipLevel.DEFAULT : gzipLevel,
+    zstdLevel,
+    autoTune,
+    autoLevels: resolveAutoLevels(quality, gzipLevel, autoTune),
+    brotli,
+    gzip,
+    minSize,
+    maxSize,
+    minRatio,
+    deleteOriginal,
+    cleanStale,
+    shouldCompress,
+    excludePatterns,
+    includePatterns,
+    parallel,
+    maxParallel,
+    skipExisting,
+    continueOnError,
+    retryAttempts,
+    verify,
+    integrity,
+    errorCallback,
+    onFileCompressed,
+    onProgress,
+    devServer,
+    previewServer,
+    manifest,
+    cache,
+    emitToBundle,
+    budgets,
+    rules,
+    baseline,
+    reporters,
+    dictionary,
+    compressors,
+    manifestFileName: manifest === true ? 'compression-manifest.json' : manifest || undefined
+  };
+
+  validateCompressors(compressors, getAllEncodings(settings));
+  if (dictionary && !getAllEncodings(settings).includes(CompressionType.ZSTD)) {
+    console.warn(
+      '[vite-plugin-brotli-compress] Dictionary variants are only written for zstd (.dcz); ' +
+      'add CompressionType.ZSTD to type to use them'
+    );
+  }
+  return settings;
+}
+
+/**
+ * Builds the internal compression options from resolved plugin options.
+ */
+function getCompressionOptions(
+  settings: ResolvedOptions,
+  cacheDir: string | undefined,
+  hashContent: boolean
+): CompressionOptions {
+  return {
+    encodings: settings.encodings,
+    quality: settings.quality,
+    gzipLevel: settings.gzipLevel,
+    zstdLevel: settings.zstdLevel,
+    brotli: settings.brotli,
+    gzip: settings.gzip,
+    compressors: settings.compressors,
+    autoLevels: settings.autoLevels,
+    timeBudget: {
+      file: settings.autoTune.fileTimeBudget ?? AUTO_TUNE_DEFAULTS.fileTimeBudget,
+      remaining: settings.autoTune.totalTimeBudget ?? Infinity
+    },
+    minRatio: settings.minRatio,
+    deleteOriginal: settings.deleteOriginal,
+    parallel: settings.parallel,
+    maxParallel: settings.maxParallel,
+    verbose: settings.verbose,
+    continueOnError: settings.continueOnError,
+    retryAttempts: settings.retryAttempts,
+    verify: settings.verify,
+    integrity: settings.integrity,
+    errorCallback: settings.errorCallback,
+    onFileCompressed: settings.onFileCompressed,
+    hashContent,
+    cacheDir
+  };
+}
+
+/**
+ * Describes the settings used for a compression run in the manifest.
+ */
+function getManifestSettings(settings: ResolvedOptions): CompressionManifest['settings'] {
+  const autoLevels = Object.entries(settings.autoLevels) as [Encoding, number[]][];
+  return {
+    encodings: [
+      ...getAllEncodings(settings).map(encoding => ENCODING_TOKENS[encoding]),
+      ...settings.compressors.map(compressor => compressor.contentEncoding)
+    ],
+    quality: settings.autoLevels[CompressionType.BROTLI] ? 'auto' : Math.min(Math.max(settings.quality, 0), 11),
+    gzipLevel: settings.autoLevels[CompressionType.GZIP] ? 'auto' : Math.min(Math.max(settings.gzipLevel, 0), 9),
+    zstdLevel: Math.min(Math.max(settings.zstdLevel, 1), 22),
+    autoLevels: autoLevels.length > 0
+      ? Object.fromEntries(autoLevels.map(([encoding, levels]) => [ENCODING_TOKENS[encoding], levels]))
+      : undefined,
+    extensions: settings.extensions,
+    minSize: settings.minSize,
+    maxSize: settings.maxSize,
+    deleteOriginal: settings.deleteOriginal
+  };
+}
+
+/**
+ * The build environment a hook runs in, used internally.
+ */
+interface BuildEnvironment {
+  name: string;
+  consumer: 'client' | 'server';
+  config: ResolvedConfig;
+}
+
+/**
+ * Determines the build environment of a hook. Uses `this.environment` on
+ * Vite 6+ and falls back to `build.ssr` on older versions.
+ */
+function getBuildEnvironment(context: unknown, config: ResolvedConfig): BuildEnvironment {
+  const environment = (context as {
+    environment?: { name: string; config?: ResolvedConfig & { consumer?: 'client' | 'server' } };
+  } | undefined)?.environment;
+
+  if (environment?.config) {
+    return {
+      name: environment.name,
+      consumer: environment.config.consumer ?? (environment.name === 'client' ? 'client' : 'server'),
+      config: environment.config
+    };
+  }
+
+  const ssr = !!config.build.ssr;
+  return { name: ssr ? 'ssr' : 'client', consumer: ssr ? 'server' : 'client', config };
+}
+
+/**
+ * The main plugin function.
+ */
+export default function brotliCompress(options: BrotliOptions = {}): Plugin {
+  let viteConfig: ResolvedConfig;
+
+  const { environments = {} } = options;
+  const defaults = resolveOptions(options);
+  const { devServer, previewServer } = defaults;
+
+  // Output directories written by each environment, recorded in writeBundle.
+  const writtenDirs = new Map<string, Set<string>>();
+
+  // Chunk names keyed by absolute output path, used to match budgets by entry name.
+  const chunkNames = new Map<string, string>();
+
+  // Originals removed from the bundle by `deleteOriginal`, so `cleanStale` keeps their variants.
+  const deletedOriginals = new Set<string>();
+
+  // Returns the settings for an environment, or undefined if it shouldn't be compressed.
+  // Server (SSR) environments are skipped unless enabled in `environments`.
+  const getSettings = (environment: BuildEnvironment): ResolvedOptions | undefined => {
+    const override = environments[environment.name];
+    if (override === false) return undefined;
+    if (override === undefined) {
+      return environment.consumer === 'server' ? undefined : defaults;
+    }
+    return override === true ? defaults : resolveOptions({ ...options, ...override });
+  };
+
+  return {
+    name: 'vite-plugin-brotli-compress',
+
+    // Hook into the resolved Vite configuration.
+    configResolved(resolvedConfig) {
+      viteConfig = resolvedConfig;
+    },
+
+    // Hook that adds the opt-in compression middleware to the dev server.
+    configureServer(server) {
+      if (!devServer) return;
+
+      const devServerOptions = devServer === true ? {} : devServer;
+      server.middlewares.use(createCompressionMiddleware(defaults.encodings, {
+        quality: defaults.quality,
+        gzipLevel: defaults.gzipLevel,
+        zstdLevel: defaults.zstdLevel,
+        minSize: devServerOptions.minSize ?? 1024,
+        cacheSize: devServerOptions.cacheSize ?? 500
+      }));
+    },
+
+    // Hook that serves precompressed files from the preview server.
+    configurePreviewServer(server) {
+      if (!previewServer) return;
+
+      const config = server.config || viteConfig;
+      server.middlewares.use(createPrecompressedMiddleware(resolveOutDir(config), config.base, defaults.encodings, config.preview?.headers));
+    },
+
+    // Hook that compresses chunks and assets in memory and emits the variants into the bundle.
+    generateBundle: {
+      order: 'post',
+      async handler(outputOptions, bundle) {
+        const environment = getBuildEnvironment(this, viteConfig);
+        const settings = getSettings(environment);
+        if (!settings?.emitToBundle) return;
+        if (settings.dictionary) {
+          console.warn('[vite-plugin-brotli-compress] dictionary is not supported with emitToBundle; no dictionary variants are written');
+        }
+
+        const { verbose, manifestFileName } = settings;
+        const encodings = getAllEncodings(settings);
+        const startTime = Date.now();
+        const outDir = outputOptions.dir ? path.resolve(outputOptions.dir) : resolveOutDir(environment.config);
+        const resolveFileSettings = createRuleResolver(settings, outDir);
+
+        if (verbose) {
+          console.log(`\n[vite-plugin-brotli-compress] Starting ${describeEncodings(encodings, settings.compressors)} compression...`);
+        }
+
+        for (const output of Object.values(bundle)) {
+          if (output.type === 'chunk') {
+            chunkNames.set(path.join(outDir, output.fileName), output.name);
+          }
+        }
+
+        let result: CompressDirectoryResult;
+        try {
+          const sources = collectBundleSources(bundle, outDir, settings.extensions, {
+            resolveFileSettings,
+            excludePatterns: settings.excludePatterns,
+            includePatterns: settings.includePatterns,
+            shouldCompress: settings.shouldCompress,
+            manifestFileName
+          });
+
+          if (sources.size === 0) {
+            if (verbose) {
+              console.log('[vite-plugin-brotli-compress] No matching files found to compress.');
+            }
+            return;
+          }
+
+          const { stats, files } = await compressFiles(
+            [...sources.keys()],
+            {
+              ...getCompressionOptions(settings, resolveViteCacheDir(environment.config, settings.cache), !!manifestFileName),
+              onProgress: createProgressReporter(settings, outDir),
+              resolveFileSettings
+            },
+            (filePath, compressionOptions) => compressSource(filePath, sources.get(filePath)!.source, compressionOptions),
+            filePath => sources.get(filePath)!.source.length
+          );
+
+          for (const file of files) {
+            const { fileName } = sources.get(file.filePath)!;
+            for (const variant of file.variants) {
+              this.emitFile({
+                type: 'asset',
+                fileName: `${fileName}.${getEncodingExtension(variant.encoding, settings.compressors)}`,
+                source: variant.source!
+              });
+            }
+            if (settings.deleteOriginal && file.variants.length > 0) {
+              delete bundle[fileName];
+              file.deleted = true;
+              deletedOriginals.add(file.filePath);
+            }
+          }
+
+          if (manifestFileName) {
+            this.emitFile({
+              type: 'asset',
+              fileName: manifestFileName,
+              source: `${JSON.stringify(buildManifest(outDir, files, getManifestSettings(settings), settings.compressors), null, 2)}\n`
+            });
+          }
+
+          stats.timeElapsed = Date.now() - startTime;
+
+          if (verbose) {
+            logCompressionResults(stats, encodings, settings.compressors);
+          }
+
+          const baseline = settings.baseline && loadBaseline(path.resolve(environment.config.root, settings.baseline));
+          if (baseline) {
+            logBaselineComparison(baseline, buildManifest(outDir, files, getManifestSettings(settings), settings.compressors));
+          }
+
+          result = { stats, files: files.map(toFileResult) };
+        } catch (error) {
+          console.error('[vite-plugin-brotli-compress] Error during compression:', error);
+          if (!settings.continueOnError) {
+            throw error;
+          }
+          return;
+        }
+
+        // Budget failures fail the build regardless of continueOnError.
+        finishCompression(settings, outDir, result, environment.config.root, chunkNames);
+      }
+    },
+
+    // Hook that records every output directory written by the current environment.
+    writeBundle(outputOptions, bundle) {
+      const environment = getBuildEnvironment(this, viteConfig);
+      const dir = outputOptions.dir
+        ? path.resolve(outputOptions.dir)
+        : outputOptions.file ? path.dirname(path.resolve(outputOptions.file)) : undefined;
+      if (!dir) return;
+
+      for (const output of Object.values(bundle)) {
+        if (output.type === 'chunk') {
+          chunkNames.set(path.join(dir, output.fileName), output.name);
+        }
+      }
+
+      const dirs = writtenDirs.get(environment.name) ?? new Set<string>();
+      dirs.add(dir);
+      writtenDirs.set(environment.name, dirs);
+    },
+
+    // Hook that runs after the bundle is generated and written to disk.
+    async closeBundle() {
+      const environment = getBuildEnvironment(this, viteConfig);
+      const settings = getSettings(environment);
+      const dirs = writtenDirs.get(environment.name);
+      writtenDirs.delete(environment.name);
+
+      if (!settings) return;
+
+      // Emitted variants are written by Vite, so only stale ones are left to clean up
+      if (settings.emitToBundle) {
+        for (const outDir of dirs ?? getOutputDirs(environment.config)) {
+          cleanStaleVariants(outDir, settings, deletedOriginals);
+        }
+        deletedOriginals.clear();
+        return;
+      }
+
+      for (const outDir of dirs ?? getOutputDirs(environment.config)) {
+        let result: CompressDirectoryResult;
+        try {
+          result = await runDirectoryCompression(outDir, settings, {
+            cacheDir: resolveViteCacheDir(environment.config, settings.cache),
+            baselinePath: settings.baseline && path.resolve(environment.config.root, settings.baseline),
+            previousBuildDir: settings.dictionary && path.resolve(environment.config.root, settings.dictionary.previousBuild)
+          });
+        } catch (error) {
+          console.error('[vite-plugin-brotli-compress] Error during compression:', error);
+          if (!settings.continueOnError) {
+            throw error;
+          }
+          continue;
+        }
+
+        // Budget failures fail the build regardless of continueOnError.
+        finishCompression(settings, outDir, result, environment.config.root, chunkNames);
+      }
+    },
+  };
+}
+
+/**
+ * Compresses the files in a directory with the same rules as the Vite plugin.
+ * Useful for folders produced by other tools.
+ *
+ * @example
+ * const { stats, files } = await compressDirectory('storybook-static', {
+ *   type: CompressionType.BOTH,
+ *   onProgress: ({ percentage }) => console.log(`${percentage.toFixed(0)}%`)
+ * });
+ */
+export async function compressDirectory(
+  dir: string,
+  options: CompressDirectoryOptions = {}
+): Promise<CompressDirectoryResult> {
+  const { signal, ...brotliOptions } = options;
+  const settings = resolveOptions(brotliOptions);
+
+  const outDir = path.resolve(dir);
+  const result = await runDirectoryCompression(outDir, settings, {
+    cacheDir: resolveCacheDir(settings.cache, process.cwd()),
+    baselinePath: settings.baseline && path.resolve(settings.baseline),
+    previousBuildDir: settings.dictionary && path.resolve(settings.dictionary.previousBuild),
+    signal
+  });
+
+  finishCompression(settings, outDir, result, process.cwd());
+  return result;
+}
+
+/**
+ * Finds and compresses the matching files in a directory, writes the
+ * manifest if enabled, and logs the results.
+ */
+async function runDirectoryCompression(
+  outDir: string,
+  settings: ResolvedOptions,
+  context: {
+    cacheDir?: string;
+    baselinePath?: string;
+    previousBuildDir?: string;
+    signal?: AbortSignal;
+  }
+): Promise<CompressDirectoryResult> {
+  const { verbose, manifestFileName } = settings;
+  const encodings = getAllEncodings(settings);
+  const resolveFileSettings = createRuleResolver(settings, outDir);
+  const startTime = Date.now();
+
+  throwIfAborted(context.signal);
+  
+  if (verbose) {
+    console.log(`\n[vite-plugin-brotli-compress] Starting ${describeEncodings(encodings, settings.compressors)} compression...`);
+  }
+
+  // Find all files in the output directory that match the extensions.
+  const upToDateFiles: string[] = [];
+  let filesToCompress = await findFiles(
+    outDir, 
+    settings.extensions, 
+    resolveFileSettings,
+    settings.excludePatterns,
+    settings.includePatterns,
+    settings.shouldCompress,
+    settings.skipExisting,
+    upToDateFiles
+  );
+
+  // Never compress a manifest left over from a previous build.
+  const manifestPath = manifestFileName ? path.resolve(outDir, manifestFileName) : undefined;
+  if (manifestPath) {
+    filesToCompress = filesToCompress.filter(filePath => filePath !== manifestPath);
+  }
+
+  // Files skipped by skipExisting still belong in the manifest, the baseline comparison, budgets and reports
+  const baseline = context.baselinePath && loadBaseline(context.baselinePath);
+  const existingFiles = await Promise.all(upToDateFiles
+    .filter(filePath => filePath !== manifestPath)
+    .map(filePath => describeExistingVariants(filePath, resolveFileSettings(filePath)!, !!manifestPath)));
+  const upToDateResults = settings.skipExisting ? existingFiles.map(toFileResult) : undefined;
+
+  const dictionaryMetadataPath = settings.dictionary
+    ? path.resolve(outDir, settings.dictionary.metadataFile ?? 'compression-dictionaries.json')
+    : undefined;
+  if (dictionaryMetadataPath) {
+    filesToCompress = filesToCompress.filter(filePath => filePath !== dictionaryMetadataPath);
+  }
+
+  if (filesToCompress.length === 0) {
+    if (verbose) {
+      console.log('[vite-plugin-brotli-compress] No matching files found to compress.');
+    }
+    if (manifestPath && existingFiles.length > 0) {
+      writeManifest(manifestPath, outDir, existingFiles, getManifestSettings(settings), settings.compressors);
+    }
+    if (baseline) {
+      logBaselineComparison(baseline, buildManifest(outDir, existingFiles, getManifestSettings(settings), settings.compressors));
+    }
+    return {
+      stats: createEmptyStats(0),
+      files: [],
+      upToDateFiles: upToDateResults,
+      staleVariants: cleanStaleVariants(outDir, settings, new Set())
+    };
+  }
+
+  const dictionaries = context.previousBuildDir
+    ? pairWithPreviousBuild(outDir, context.previousBuildDir, filesToCompress)
+    : undefined;
+  if (dictionaries) {
+    warnUnsupportedDictionaryRuntime(encodings);
+  }
+
+  // Compress files
+  const { stats, files } = await compressFiles(filesToCompress, {
+    ...getCompressionOptions(settings, context.cacheDir, !!manifestPath),
+    signal: context.signal,
+    onProgress: createProgressReporter(settings, outDir),
+    resolveFileSettings,
+    dictionaries
+  });
+
+  if (manifestPath) {
+    writeManifest(manifestPath, outDir, [...files, ...existingFiles], getManifestSettings(settings), settings.compressors);
+  }
+
+  if (dictionaryMetadataPath && dictionaries) {
+    writeDictionaryMetadata(dictionaryMetadataPath, outDir, context.previousBuildDir!, files, dictionaries, settings.dictionary!.base);
+  }
+
+  const timeElapsed = Date.now() - startTime;
+  stats.timeElapsed = timeElapsed;
+
+  if (verbose) {
+    logCompressionResults(stats, encodings, settings.compressors);
+    const dictionaryVariants = files.reduce((count, file) => count + (file.dictionaryVariants?.length ?? 0), 0);
+    if (dictionaryVariants > 0) {
+      console.log(`[vite-plugin-brotli-compress] Wrote ${dictionaryVariants} dictionary-compressed variant(s) against ${context.previousBuildDir}`);
+    }
+  }
+
+  if (baseline) {
+    logBaselineComparison(baseline, buildManifest(outDir, [...files, ...existingFiles], getManifestSettings(settings), settings.compressors));
+  }
+
+  const deletedOriginals = new Set(files.filter(file => file.deleted).map(file => file.filePath));
+  const staleVariants = cleanStaleVariants(outDir, settings, deletedOriginals);
+
+  return { stats, files: files.map(toFileResult), upToDateFiles: upToDateResults, staleVariants };
+}
+
+/**
+ * Finds variants in a directory whose original no longer exists and deletes
+ * them, unless `cleanStale` is a dry run. Only variants of files matching
+ * `extensions` are considered, so unrelated archives such as `.tar.gz` are
+ * left alone. With `deleteOriginal`, missing originals are expected: a
+ * variant only counts as stale once a newer version of its file, with the
+ * same stable name, exists or was compressed in this run. Returns undefined
+ * when `cleanStale` is off.
+ */
+function cleanStaleVariants(outDir: string, settings: ResolvedOptions, deletedOriginals: Set<string>): string[] | undefined {
+  if (!settings.cleanStale || !fs.existsSync(outDir)) return undefined;
+
+  const dryRun = typeof settings.cleanStale === 'object' && !!settings.cleanStale.dryRun;
+  const variantExtensions = new Set([
+    ...Object.values(ENCODING_EXTENSIONS),
+    ...Object.values(DICTIONARY_ENCODINGS),
+    ...settings.compressors.map(compressor => compressor.extension)
+  ]);
+  const files = listFiles(outDir);
+  const existing = new Set(files);
+  const currentNames = new Set([...files, ...deletedOriginals].map(getStableName));
+
+  const stale = files.filter(filePath => {
+    const extension = path.extname(filePath).slice(1);
+    if (!variantExtensions.has(extension)) return false;
+
+    const originalPath = filePath.slice(0, -extension.length - 1);
+    if (!settings.extensions.some(ext => originalPath.endsWith(`.${ext}`))) return false;
+    if (existing.has(originalPath) || deletedOriginals.has(originalPath)) return false;
+    return !settings.deleteOriginal || currentNames.has(getStableName(originalPath));
+  });
+
+  if (!dryRun) {
+    for (const filePath of stale) {
+      fs.rmSync(filePath, { force: true });
+    }
+  }
+
+  if (settings.verbose && stale.length > 0) {
+    const action = dryRun ? 'Found' : 'Removed';
+    const note = dryRun ? ' (dry run, nothing deleted)' : '';
+    console.log(`[vite-plugin-brotli-compress] ${action} ${stale.length} stale variant(s)${note}:`);
+    for (const filePath of stale) {
+      console.log(`  ${toOutDirPath(outDir, filePath)}`);
+    }
+  }
+
+  return stale;
+}
+
+/**
+ * Lists the files in a directory together with the `.br`/`.gz`/`.zst`
+ * variants next to them. Files matching `extensions` are listed even without
+ * variants; variants whose original was deleted are listed too.
+ */
+export async function inspectDirectory(
+  dir: string,
+  options: Pick<BrotliOptions, 'extensions'> = {}
+): Promise<InspectedFile[]> {
+  const { extensions = resolveOptions({}).extensions } = options;
+  const encodingsByExtension = new Map(
+    (Object.entries(ENCODING_EXTENSIONS) as [Encoding, string][]).map(([encoding, ext]) => [`.${ext}`, encoding])
+  );
+  const entries = new Map<string, InspectedFile>();
+
+  const getEntry = (filePath: string) => {
+    let entry = entries.get(filePath);
+    if (!entry) {
+      entry = { filePath, variants: [] };
+      entries.set(filePath, entry);
+    }
+    return entry;
+  };
+
+  const walk = (current: string) => {
+    for (const dirent of fs.readdirSync(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, dirent.name);
+      if (dirent.isDirectory()) {
+        walk(fullPath);
+        continue;
+      }
+      if (!dirent.isFile()) continue;
+
+      const size = fs.statSync(fullPath).size;
+      const encoding = encodingsByExtension.get(path.extname(dirent.name));
+      if (encoding) {
+        const sourcePath = fullPath.slice(0, -path.extname(dirent.name).length);
+        getEntry(sourcePath).variants.push({ encoding, path: fullPath, size });
+      } else if (extensions.some(ext => dirent.name.endsWith(`.${ext}`))) {
+        getEntry(fullPath).originalSize = size;
+      }
+    }
+  };
+
+  walk(path.resolve(dir));
+
+  // Sources whose original exists but didn't match the extensions still need a size.
+  for (const entry of entries.values()) {
+    if (entry.originalSize === undefined && fs.existsSync(entry.filePath)) {
+      entry.originalSize = fs.statSync(entry.filePath).size;
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * Converts an internal file result into the public result shape.
+ */
+function toFileResult(file: FileCompressionResult): CompressionFileResult {
+  return {
+    filePath: file.filePath,
+    originalSize: file.totalOriginalSize,
+    integrity: file.integrity,
+    deleted: !!file.deleted,
+    variants: file.variants.map(({ encoding, path: variantPath, size, duration, level, integrity }) => ({
+      encoding,
+      path: variantPath,
+      size,
+      duration,
+      level,
+      integrity
+    })),
+    skipped: file.skipped,
+    errors: file.errors
+  };
+}
+
+/**
+ * Lists the output directories configured for a build: every `dir` (or
+ * `file` directory) in `rollupOptions.output`, or `build.outDir`.
+ */
+function getOutputDirs(config: ResolvedConfig): string[] {
+  const root = config.root || process.cwd();
+  const output = config.build.rollupOptions?.output;
+  const outputs = Array.isArray(output) ? output : output ? [output] : [];
+
+  const dirs = new Set<string>();
+  for (const { dir, file } of outputs) {
+    if (dir) dirs.add(path.resolve(root, dir));
+    else if (file) dirs.add(path.dirname(path.resolve(root, file)));
+  }
+
+  return dirs.size > 0 ? [...dirs] : [resolveOutDir(config)];
+}
+
+/**
+ * Resolves the build output directory against the project root.
+ */
+function resolveOutDir(config: ResolvedConfig): string {
+  return path.resolve(config.root || process.cwd(), config.build.outDir);
+}
+
+/**
+ * Resolves the persistent compression cache directory, if caching is enabled.
+ */
+function resolveCacheDir(
+  cache: boolean | string,
+  root: string,
+  viteCacheDir: string = 'node_modules/.vite'
+): string | undefined {
+  if (!cache) return undefined;
+
+  if (typeof cache === 'string') {
+    return path.resolve(root, cache);
+  }
+  return path.join(path.resolve(root, viteCacheDir), 'brotli-compress');
+}
+
+/**
+ * Resolves the compression cache directory inside Vite's `cacheDir`.
+ */
+function resolveViteCacheDir(config: ResolvedConfig, cache: boolean | string): string | undefined {
+  return resolveCacheDir(cache, config.root || process.cwd(), config.cacheDir);
+}
+
+/**
+ * Interface for compression options used internally.
+ */
+interface CompressionOptions {
+  encodings: Encoding[];
+  quality: BrotliQuality | number;
+  gzipLevel: GzipLevel | number;
+  zstdLevel: ZstdLevel | number;
+  brotli?: BrotliEncoderOptions;
+  gzip?: GzipEncoderOptions;
+  compressors?: CustomCompressor[];
+  autoLevels?: AutoLevels;
+  /** Shared by every file of a run, so tuning time is deducted as it's spent */
+  timeBudget?: TimeBudget;
+  minRatio?: number;
+  deleteOriginal: boolean;
+  parallel: boolean;
+  maxParallel: number;
+  verbose: boolean;
+  continueOnError: boolean;
+  retryAttempts: number;
+  verify?: boolean;
+  integrity?: boolean;
+  errorCallback?: (error: Error, filePath: string) => void;
+  onFileCompressed?: (file: CompressionFileResult) => void;
+  resolveFileSettings?: (filePath: string) => FileSettings | undefined;
+  /** Previous versions of files to use as compression dictionaries, keyed by absolute path */
+  dictionaries?: Map<string, string>;
+  hashContent?: boolean;
+  cacheDir?: string;
+  workerPool?: WorkerPool;
+  signal?: AbortSignal;
+  onProgress?: (progress: CompressionProgress) => void;
+}
+
+/**
+ * Recursively finds all files with given extensions in a directory.
+ */
+async function findFiles(
+  dir: string, 
+  extensions: string[], 
+  resolveFileSettings: (filePath: string) => FileSettings | undefined,
+  excludePatterns: string[],
+  includePatterns: string[],
+  shouldCompress?: (filePath: string, fileSize: number) => boolean,
   skipExisting: boolean = false,
-  type: CompressionType = CompressionType.BROTLI,
+  upToDateFiles: string[] = [],
   visitedDirs: Set<string> = new Set()
 ): Promise<string[]> {
   // Prevent infinite recursion by tracking visited directories
   if (visitedDirs.has(dir)) {
     return [];
   }
-  visitedDirs.add(dir);
+  visitedDirs.add(dir);
+
+  try {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const fullPath = path.resolve(dir, entry.name);
+      
+      if (entry.isDirectory()) {
+        try {
+          const subFiles = await findFiles(
+            fullPath, 
+            extensions, 
+            resolveFileSettings,
+            excludePatterns,
+            includePatterns,
+            shouldCompress,
+            skipExisting,
+            upToDateFiles,
+            visitedDirs
+          );
+          files.push(...subFiles);
+        } catch (error) {
+          // Skip directories that can't be accessed
+          continue;
+        }
+      } else if (extensions.some(ext => entry.name.endsWith(`.${ext}`))) {
+        try {
+          const stats = fs.statSync(fullPath);
+          const fileSize = stats.size;
+
+          // Rules can disable compression or change the size limits and encodings
+          const fileSettings = resolveFileSettings(fullPath);
+          if (!fileSettings) {
+            continue;
+          }
+          
+          // Check if file should be compressed
+          if (!shouldCompressFile(
+            fullPath, 
+            fileSize, 
+            fileSettings.minSize, 
+            fileSettings.maxSize,
+            excludePatterns,
+            includePatterns,
+            shouldCompress
+          )) {
+            continue;
+          }
+          
+          // Skip if compressed file already exists
+          if (skipExisting && compressedFileExists(fullPath, fileSettings.encodings, fileSettings.compressors)) {
+            upToDateFiles.push(fullPath);
+            continue;
+          }
+          
+          files.push(fullPath);
+        } catch (error) {
+          // Skip files that can't be accessed
+          continue;
+        }
+      }
+    }
+    
+    return files;
+  } catch (error) {
+    // Directory doesn't exist or can't be accessed
+    return [];
+  }
+}
+
+/**
+ * A compressed variant written for a single file, used internally.
+ */
+interface CompressedVariant {
+  /** Built-in encoding, or the name of a custom compressor */
+  encoding: Encoding | string;
+  path: string;
+  size: number;
+  /** Time spent compressing or restoring from the cache, in milliseconds */
+  duration: number;
+  /** Compressed bytes, kept when compressing in memory for the bundle */
+  source?: Buffer;
+  /** Level chosen by `'auto'` tuning */
+  level?: number;
+  /** SRI digest of the compressed bytes */
+  integrity?: string;
+}
+
+/**
+ * A dictionary-compressed variant written for a file.
+ */
+interface DictionaryVariant {
+  encoding: Encoding;
+  path: string;
+  size: number;
+}
+
+/**
+ * Result of compressing a single file, used internally.
+ */
+interface FileCompressionResult {
+  compressedFiles: number;
+  skippedFiles: number;
+  failedFiles: number;
+  totalOriginalSize: number;
+  totalCompressedSize: number;
+  brotliFiles?: number;
+  gzipFiles?: number;
+  zstdFiles?: number;
+  cachedFiles?: number;
+  filePath: string;
+  hash?: string;
+  /** SRI digest of the original */
+  integrity?: string;
+  deleted?: boolean;
+  variants: CompressedVariant[];
+  /** Variants discarded because they didn't save enough bytes */
+  skipped: CompressionSkippedVariant[];
+  /** Messages of the errors that prevented variants from being written */
+  errors: string[];
+  /** Variants compressed with the previous version of the file as dictionary */
+  dictionaryVariants?: DictionaryVariant[];
+}
+
+/**
+ * Compresses one file (or in-memory source) and reports its result.
+ */
+type FileCompressor = (filePath: string, options: CompressionOptions) => Promise<FileCompressionResult>;
+
+/**
+ * Creates zeroed compression statistics.
+ */
+function createEmptyStats(totalFiles: number): CompressionStats {
+  return {
+    totalFiles,
+    compressedFiles: 0,
+    skippedFiles: 0,
+    failedFiles: 0,
+    totalOriginalSize: 0,
+    totalCompressedSize: 0,
+    compressionRatio: 0,
+    timeElapsed: 0,
+    brotliFiles: 0,
+    gzipFiles: 0,
+    zstdFiles: 0,
+    cachedFiles: 0
+  };
+}
+
+/**
+ * Returns why a variant should be discarded, or undefined if it is smaller
+ * than `minRatio` times the original or no `minRatio` is set.
+ */
+function getUnprofitableReason(
+  name: string,
+  originalSize: number,
+  compressedSize: number,
+  minRatio: number | undefined
+): string | undefined {
+  if (minRatio === undefined || compressedSize < originalSize * minRatio) return undefined;
+
+  const percentage = originalSize > 0 ? ((compressedSize / originalSize) * 100).toFixed(1) : '∞';
+  return `${name} output (${formatBytes(compressedSize)}) is ${percentage}% of the original, not below minRatio ${minRatio}`;
+}
+
+/**
+ * Creates the result recorded for a file that could not be compressed at all.
+ */
+function createFailedResult(filePath: string, error: unknown): FileCompressionResult {
+  return {
+    compressedFiles: 0,
+    skippedFiles: 0,
+    failedFiles: 1,
+    totalOriginalSize: 0,
+    totalCompressedSize: 0,
+    filePath,
+    variants: [],
+    skipped: [],
+    errors: [getErrorMessage(error)]
+  };
+}
+
+/**
+ * Returns the message of an error, or its string form for non-Error values.
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Throws the signal's reason once it is aborted. `AbortSignal.throwIfAborted`
+ * and `reason` need Node.js 17, so older versions get a plain AbortError.
+ */
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+  }
+}
+
+/**
+ * Compresses multiple files with the given options.
+ */
+async function compressFiles(
+  files: string[], 
+  options: CompressionOptions,
+  compress: FileCompressor = compressFile,
+  sizeOf: (filePath: string) => number = getFileSize
+): Promise<{ stats: CompressionStats; files: FileCompressionResult[] }> {
+  const fileResults: FileCompressionResult[] = [];
+  const stats = createEmptyStats(files.length);
+
+  let completed = 0;
+  const reportProgress = (filePath: string) => {
+    completed++;
+    options.onProgress?.({
+      currentFile: filePath,
+      currentIndex: completed,
+      totalFiles: files.length,
+      percentage: (completed / files.length) * 100
+    });
+  };
+
+  if (options.parallel) {
+    // Keep maxParallel files in flight on a worker pool, largest files first
+    const concurrency = Math.max(Math.min(options.maxParallel, files.length), 1);
+    let workerPool: WorkerPool | undefined;
+    try {
+      workerPool = createWorkerPool(concurrency);
+    } catch (error) {
+      if (options.verbose) {
+        console.warn('[vite-plugin-brotli-compress] Worker threads unavailable, compressing on the main thread:', error);
+      }
+    }
+
+    // On abort runQueue stops starting files; those in flight still finish
+    try {
+      const queue = sortBySizeDescending(files, sizeOf);
+      const results = await runQueue(
+        queue,
+        concurrency,
+        async filePath => {
+          try {
+            const result = await compressFileWithRetry(filePath, { ...options, workerPool }, compress);
+            options.onFileCompressed?.(toFileResult(result));
+            return result;
+          } catch (error) {
+            if (options.verbose) {
+              console.warn(`[vite-plugin-brotli-compress] Failed to compress file ${filePath}:`, error);
+            }
+            const failed = createFailedResult(filePath, error);
+            options.onFileCompressed?.(toFileResult(failed));
+            return failed;
+          } finally {
+            reportProgress(filePath);
+          }
+        },
+        options.signal
+      );
+      throwIfAborted(options.signal);
+      
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          fileResults.push(result.value);
+          stats.compressedFiles += result.value.compressedFiles;
+          stats.skippedFiles += result.value.skippedFiles;
+          stats.failedFiles += result.value.failedFiles;
+          stats.totalOriginalSize += result.value.totalOriginalSize;
+          stats.totalCompressedSize += result.value.totalCompressedSize;
+          stats.brotliFiles = (stats.brotliFiles || 0) + (result.value.brotliFiles || 0);
+          stats.gzipFiles = (stats.gzipFiles || 0) + (result.value.gzipFiles || 0);
+          stats.zstdFiles = (stats.zstdFiles || 0) + (result.value.zstdFiles || 0);
+          stats.cachedFiles = (stats.cachedFiles || 0) + (result.value.cachedFiles || 0);
+          addTunedLevels(stats, result.value);
+        } else {
+          stats.failedFiles++;
+          fileResults.push(createFailedResult(queue[index], result.reason));
+          if (options.verbose) {
+            console.warn(`[vite-plugin-brotli-compress] Failed to compress file: ${result.reason}`);
+          }
+        }
+      });
+    } finally {
+      await workerPool?.terminate();
+    }
+  } else {
+    // Compress files sequentially
+    for (const filePath of files) {
+      throwIfAborted(options.signal);
+      try {
+        const result = await compressFileWithRetry(filePath, options, compress);
+        fileResults.push(result);
+        options.onFileCompressed?.(toFileResult(result));
+        stats.compressedFiles += result.compressedFiles;
+        stats.skippedFiles += result.skippedFiles;
+        stats.failedFiles += result.failedFiles;
+        stats.totalOriginalSize += result.totalOriginalSize;
+        stats.totalCompressedSize += result.totalCompressedSize;
+        stats.brotliFiles = (stats.brotliFiles || 0) + (result.brotliFiles || 0);
+        stats.gzipFiles = (stats.gzipFiles || 0) + (result.gzipFiles || 0);
+        stats.zstdFiles = (stats.zstdFiles || 0) + (result.zstdFiles || 0);
+        stats.cachedFiles = (stats.cachedFiles || 0) + (result.cachedFiles || 0);
+        addTunedLevels(stats, result);
+      } catch (error) {
+        const failed = createFailedResult(filePath, error);
+        stats.failedFiles++;
+        fileResults.push(failed);
+        if (options.verbose) {
+          console.warn(`[vite-plugin-brotli-compress] Failed to compress file ${filePath}:`, error);
+        }
+        if (options.errorCallback) {
+          options.errorCallback(error as Error, filePath);
+        }
+        options.onFileCompressed?.(toFileResult(failed));
+      }
+      reportProgress(filePath);
+    }
+  }
+
+  stats.compressionRatio = stats.totalOriginalSize > 0 
+    ? ((stats.totalOriginalSize - stats.totalCompressedSize) / stats.totalOriginalSize) * 100 
+    : 0;
+
+  return { stats, files: fileResults };
+}
+
+/**
+ * Applies the encodings and levels of the rule matching a file.
+ */
+function applyFileSettings(filePath: string, options: CompressionOptions): CompressionOptions {
+  const fileSettings = options.resolveFileSettings?.(filePath);
+  if (!fileSettings) return options;
+
+  return {
+    ...options,
+    encodings: fileSettings.encodings,
+    quality: fileSettings.quality,
+    gzipLevel: fileSettings.gzipLevel,
+    zstdLevel: fileSettings.zstdLevel,
+    autoLevels: fileSettings.autoLevels,
+    brotli: fileSettings.brotli,
+    gzip: fileSettings.gzip
+  };
+}
+
+/**
+ * Compresses a file with retry logic.
+ */
+async function compressFileWithRetry(
+  filePath: string, 
+  options: CompressionOptions,
+  compress: FileCompressor = compressFile
+): Promise<FileCompressionResult> {
+  let lastError: Error | null = null;
+  const fileOptions = applyFileSettings(filePath, options);
+  
+  for (let attempt = 0; attempt <= options.retryAttempts; attempt++) {
+    try {
+      return await compress(filePath, fileOptions);
+    } catch (error) {
+      lastError = error as Error;
+      if (attempt < options.retryAttempts) {
+        if (options.verbose) {
+          console.warn(`[vite-plugin-brotli-compress] Retry ${attempt + 1}/${options.retryAttempts} for ${filePath}`);
+        }
+        // Wait before retry (exponential backoff)
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
+      }
+    }
+  }
+  
+  // All retries failed
+  if (options.errorCallback) {
+    options.errorCallback(lastError!, filePath);
+  }
+  throw lastError;
+}
+
+/**
+ * Compresses a single file using Brotli and/or Gzip.
+ */
+function compressFile(
+  filePath: string, 
+  options: CompressionOptions
+): Promise<FileCompressionResult> {
+  return new Promise(async (resolve, reject) => {
+    const results: FileCompressionResult = {
+      compressedFiles: 0,
+      skippedFiles: 0,
+      failedFiles: 0,
+      totalOriginalSize: 0,
+      totalCompressedSize: 0,
+      brotliFiles: 0,
+      gzipFiles: 0,
+      zstdFiles: 0,
+      cachedFiles: 0,
+      filePath,
+      variants: [],
+      skipped: [],
+      errors: []
+    };
+
+    try {
+      // Get original file size
+      const stats = fs.statSync(filePath);
+      results.totalOriginalSize = stats.size;
+
+      // Hash the original before it can be deleted
+      if (options.hashContent || options.cacheDir || options.verify || options.integrity) {
+        results.hash = await hashFile(filePath);
+        results.integrity = options.integrity ? getIntegrity(results.hash) : undefined;
+      }
+
+      // Compress with each requested encoding
+      for (const encoding of options.encodings) {
+        const startTime = Date.now();
+        try {
+          const compressedPath = `${filePath}.${ENCODING_EXTENSIONS[encoding]}`;
+          const levels = getTunedLevels(encoding, options);
+          const cachePath = options.cacheDir
+            ? path.join(options.cacheDir, getCacheKey(results.hash!, encoding, options, filePath, results.totalOriginalSize))
+            : undefined;
+          const cachedLevel = cachePath && levels ? readCachedLevel(cachePath) : undefined;
+
+          let result: {compressedSize: number; level?: number};
+          if (cachePath && fs.existsSync(cachePath) && (!levels || cachedLevel !== undefined)) {
+            await writeVariant(filePath, compressedPath, tempPath => fs.copyFileSync(cachePath, tempPath));
+            result = { compressedSize: fs.statSync(compressedPath).size, level: cachedLevel };
+            results.cachedFiles!++;
+          } else if (levels) {
+            const tuned = await tuneLevel(fs.readFileSync(filePath), filePath, encoding, levels, options);
+            await writeVariant(filePath, compressedPath, tempPath => fs.writeFileSync(tempPath, tuned.output));
+            result = { compressedSize: tuned.output.length, level: tuned.level };
+            if (cachePath) {
+              storeInCache(tuned.output, cachePath, tuned.level);
+            }
+          } else {
+            result = await writeVariant(filePath, compressedPath, tempPath =>
+              compressWithEncoding(filePath, tempPath, encoding, options, results.totalOriginalSize)
+            );
+            if (cachePath) {
+              storeInCache(compressedPath, cachePath);
+            }
+          }
+
+          const reason = getUnprofitableReason(ENCODING_NAMES[encoding], results.totalOriginalSize, result.compressedSize, options.minRatio);
+          if (reason) {
+            fs.unlinkSync(compressedPath);
+            results.skippedFiles++;
+            results.skipped.push({ encoding, reason });
+            continue;
+          }
+
+          results.compressedFiles++;
+          results.totalCompressedSize += result.compressedSize;
+          results[ENCODING_STATS_KEYS[encoding]] = 1;
+
+          results.variants.push({
+            encoding,
+            path: compressedPath,
+            size: result.compressedSize,
+            duration: Date.now() - startTime,
+            level: result.level
+          });
+        } catch (error) {
+          results.failedFiles++;
+          results.errors.push(`${ENCODING_NAMES[encoding]}: ${getErrorMessage(error)}`);
+          if (options.verbose) {
+            console.warn(`[vite-plugin-brotli-compress] ${ENCODING_NAMES[encoding]} compression failed for ${filePath}:`, error);
+          }
+        }
+      }
+
+      if (options.compressors?.length) {
+        await runCompressors(filePath, fs.readFileSync(filePath), options, results, false);
+      }
+
+      if (options.verify || options.integrity) {
+        await checkVariants(results, options);
+      }
+
+      // Delta-compress against the previous version before the original can be deleted
+      const dictionaryPath = options.dictionaries?.get(filePath);
+      if (dictionaryPath) {
+        await writeDictionaryVariants(filePath, dictionaryPath, options, results);
+      }
+
+      // Delete original file if requested and at least one compression succeeded
+      if (options.deleteOriginal && results.compressedFiles > 0) {
+        try {
+          fs.unlinkSync(filePath);
+          results.deleted = true;
+        } catch (error) {
+          if (options.verbose) {
+            console.warn(`[vite-plugin-brotli-compress] Failed to delete original file ${filePath}:`, error);
+          }
+        }
+      }
+
+      resolve(results);
+    } catch (error) {
+      removeWrittenVariants(results);
+      reject(error);
+    }
+  });
+}
+
+/**
+ * A chunk or asset selected for compression from the Rollup bundle.
+ */
+interface BundleSource {
+  fileName: string;
+  source: Buffer;
+}
+
+/**
+ * Collects the chunks and assets in a bundle that should be compressed,
+ * keyed by the absolute path they would be written to.
+ */
+function collectBundleSources(
+  bundle: OutputBundle,
+  outDir: string,
+  extensions: string[],
+  filters: {
+    resolveFileSettings: (filePath: string) => FileSettings | undefined;
+    excludePatterns: string[];
+    includePatterns: string[];
+    shouldCompress?: (filePath: string, fileSize: number) => boolean;
+    manifestFileName?: string;
+  }
+): Map<string, BundleSource> {
+  const sources = new Map<string, BundleSource>();
+
+  for (const [fileName, output] of Object.entries(bundle)) {
+    if (fileName === filters.manifestFileName) continue;
+    if (!extensions.some(ext => fileName.endsWith(`.${ext}`))) continue;
+
+    const source = output.type === 'chunk'
+      ? Buffer.from(output.code)
+      : Buffer.from(output.source);
+    const filePath = path.resolve(outDir, fileName);
+    const fileSettings = filters.resolveFileSettings(filePath);
+
+    if (!fileSettings || !shouldCompressFile(
+      filePath,
+      source.length,
+      fileSettings.minSize,
+      fileSettings.maxSize,
+      filters.excludePatterns,
+      filters.includePatterns,
+      filters.shouldCompress
+    )) {
+      continue;
+    }
+
+    sources.set(filePath, { fileName, source });
+  }
+
+  return sources;
+}
+
+/**
+ * Compresses an in-memory source with each requested encoding, keeping the
+ * compressed bytes on the result instead of writing them to disk.
+ */
+async function compressSource(
+  filePath: string,
+  source: Buffer,
+  options: CompressionOptions
+): Promise<FileCompressionResult> {
+  const results: FileCompressionResult = {
+    compressedFiles: 0,
+    skippedFiles: 0,
+    failedFiles: 0,
+    totalOriginalSize: source.length,
+    totalCompressedSize: 0,
+    brotliFiles: 0,
+    gzipFiles: 0,
+    zstdFiles: 0,
+    cachedFiles: 0,
+    filePath,
+    variants: [],
+    skipped: [],
+    errors: []
+  };
+
+  if (options.hashContent || options.cacheDir || options.verify || options.integrity) {
+    results.hash = crypto.createHash('sha256').update(source).digest('hex');
+    results.integrity = options.integrity ? getIntegrity(results.hash) : undefined;
+  }
+
+  for (const encoding of options.encodings) {
+    const startTime = Date.now();
+    try {
+      const levels = getTunedLevels(encoding, options);
+      const cachePath = options.cacheDir
+        ? path.join(options.cacheDir, getCacheKey(results.hash!, encoding, options, filePath, results.totalOriginalSize))
+        : undefined;
+      const cachedLevel = cachePath && levels ? readCachedLevel(cachePath) : undefined;
+
+      let output: Buffer;
+      let level: number | undefined;
+      if (cachePath && fs.existsSync(cachePath) && (!levels || cachedLevel !== undefined)) {
+        output = fs.readFileSync(cachePath);
+        level = cachedLevel;
+        results.cachedFiles!++;
+      } else if (levels) {
+        ({ output, level } = await tuneLevel(source, filePath, encoding, levels, options));
+        if (cachePath) {
+          storeInCache(output, cachePath, level);
+        }
+      } else {
+        output = options.workerPool
+          ? await options.workerPool.run(encoding, getZlibOptions(encoding, options, filePath, source.length), source)
+          : await compressBuffer(source, encoding, options, filePath);
+        if (cachePath) {
+          storeInCache(output, cachePath);
+        }
+      }
+
+      const reason = getUnprofitableReason(ENCODING_NAMES[encoding], source.length, output.length, options.minRatio);
+      if (reason) {
+        results.skippedFiles++;
+        results.skipped.push({ encoding, reason });
+        continue;
+      }
+
+      results.compressedFiles++;
+      results.totalCompressedSize += output.length;
+      results[ENCODING_STATS_KEYS[encoding]] = 1;
+      results.variants.push({
+        encoding,
+        path: `${filePath}.${ENCODING_EXTENSIONS[encoding]}`,
+        size: output.length,
+        duration: Date.now() - startTime,
+        source: output,
+        level
+      });
+    } catch (error) {
+      results.failedFiles++;
+      results.errors.push(`${ENCODING_NAMES[encoding]}: ${getErrorMessage(error)}`);
+      if (options.verbose) {
+        console.warn(`[vite-plugin-brotli-compress] ${ENCODING_NAMES[encoding]} compression failed for ${filePath}:`, error);
+      }
+    }
+  }
+
+  if (options.compressors?.length) {
+    await runCompressors(filePath, source, options, results, true);
+  }
+
+  if (options.verify || options.integrity) {
+    await checkVariants(results, options);
+  }
+
+  return results;
+}
+
+/**
+ * Wraps bytes in a Buffer without copying them.
+ */
+function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Runs a custom compressor, collecting the output of a returned stream.
+ */
+async function encodeWithCompressor(compressor: CustomCompressor, source: Buffer, filePath: string): Promise<Buffer> {
+  const encoded = compressor.encode(source, { filePath });
+  if (!('pipe' in encoded)) {
+    return toBuffer(await encoded);
+  }
+
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from([source]),
+    encoded,
+    new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      }
+    })
+  );
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Runs each custom compressor on a source and records its variant. Custom
+ * compressors run on the main thread, as functions can't be sent to workers,
+ * and their output is not cached.
+ */
+async function runCompressors(
+  filePath: string,
+  source: Buffer,
+  options: CompressionOptions,
+  results: FileCompressionResult,
+  keepSource: boolean
+): Promise<void> {
+  for (const compressor of options.compressors ?? []) {
+    const startTime = Date.now();
+    try {
+      const output = await encodeWithCompressor(compressor, source, filePath);
+
+      const reason = getUnprofitableReason(compressor.name, source.length, output.length, options.minRatio);
+      if (reason) {
+        results.skippedFiles++;
+        results.skipped.push({ encoding: compressor.name, reason });
+        continue;
+      }
+
+      const compressedPath = `${filePath}.${compressor.extension}`;
+      if (!keepSource) {
+        await writeVariant(filePath, compressedPath, tempPath => fs.writeFileSync(tempPath, output));
+      }
+
+      results.compressedFiles++;
+      results.totalCompressedSize += output.length;
+      results.variants.push({
+        encoding: compressor.name,
+        path: compressedPath,
+        size: output.length,
+        duration: Date.now() - startTime,
+        source: keepSource ? output : undefined
+      });
+    } catch (error) {
+      results.failedFiles++;
+      results.errors.push(`${compressor.name}: ${getErrorMessage(error)}`);
+      if (options.verbose) {
+        console.warn(`[vite-plugin-brotli-compress] ${compressor.name} compression failed for ${filePath}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Formats a hex SHA-256 hash as a Subresource Integrity digest.
+ */
+function getIntegrity(hash: string): string {
+  return `sha256-${Buffer.from(hash, 'hex').toString('base64')}`;
+}
+
+/**
+ * Decompresses a variant. Resolves to `undefined` for custom compressors
+ * without a decoder.
+ */
+async function decompressVariant(
+  compressed: Buffer,
+  encoding: Encoding | string,
+  options: CompressionOptions
+): Promise<Buffer | undefined> {
+  const compressor = options.compressors?.find(candidate => candidate.name === encoding);
+  if (compressor) {
+    return compressor.decode ? toBuffer(await compressor.decode(compressed)) : undefined;
+  }
+
+  return new Promise((resolve, reject) => {
+    const callback = (error: Error | null, result: Buffer) => {
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    switch (encoding) {
+      case CompressionType.GZIP:
+        zlib.gunzip(compressed, callback);
+        break;
+      case CompressionType.ZSTD:
+        zlib.zstdDecompress(compressed, callback);
+        break;
+      default:
+        zlib.brotliDecompress(compressed, {
+          params: options.brotli?.largeWindow ? { [zlib.constants.BROTLI_DECODER_PARAM_LARGE_WINDOW]: 1 } : {}
+        }, callback);
+    }
+  });
+}
+
+/**
+ * Reads back each variant of a file to check that it decompresses to the
+ * original (`verify`) and to record its SRI digest (`integrity`). Corrupt
+ * variants and their cache entries are deleted before the file fails, so a
+ * retry compresses them again.
+ */
+async function checkVariants(results: FileCompressionResult, options: CompressionOptions): Promise<void> {
+  const mismatches: string[] = [];
+
+  for (const variant of results.variants) {
+    const compressed = variant.source ?? fs.readFileSync(variant.path);
+    const name = ENCODING_NAMES[variant.encoding as Encoding] ?? variant.encoding;
+
+    if (options.verify) {
+      let reason: string | undefined;
+      try {
+        const decompressed = await decompressVariant(compressed, variant.encoding, options);
+        if (decompressed && crypto.createHash('sha256').update(decompressed).digest('hex') !== results.hash) {
+          reason = 'does not match the original';
+        }
+      } catch (error) {
+        reason = `does not decompress (${getErrorMessage(error)})`;
+      }
+
+      if (reason) {
+        mismatches.push(`${name} variant ${reason}`);
+        if (!variant.source) {
+          fs.rmSync(variant.path, { force: true });
+        }
+        if (options.cacheDir && variant.encoding in ENCODING_NAMES) {
+          const encoding = variant.encoding as Encoding;
+          fs.rmSync(path.join(options.cacheDir, getCacheKey(results.hash!, encoding, options, results.filePath, results.totalOriginalSize)), { force: true });
+        }
+        continue;
+      }
+    }
+
+    if (options.integrity) {
+      variant.integrity = `sha256-${crypto.createHash('sha256').update(compressed).digest('base64')}`;
+    }
+  }
+
+  if (mismatches.length > 0) {
+    throw new Error(`[vite-plugin-brotli-compress] Verification failed for ${results.filePath}: ${mismatches.join('; ')}`);
+  }
+}
+
+/**
+ * Compresses a source at each candidate level, from the fastest up, and
+ * keeps the smallest output. Stops once the next attempt, expected to take
+ * at least as long as the last, would overrun the file's budget or the time
+ * left for the run. The first level is always tried.
+ */
+async function tuneLevel(
+  source: Buffer,
+  filePath: string,
+  encoding: Encoding,
+  levels: number[],
+  options: CompressionOptions
+): Promise<{output: Buffer; level: number}> {
+  const startTime = Date.now();
+  let best: {output: Buffer; level: number} | undefined;
+  let lastDuration = 0;
+
+  for (const level of levels) {
+    const budget = options.timeBudget;
+    if (best && budget && (Date.now() - startTime + lastDuration >= budget.file || lastDuration >= budget.remaining)) {
+      break;
+    }
+
+    const levelOptions = encoding === CompressionType.GZIP
+      ? { ...options, gzipLevel: level }
+      : { ...options, quality: level };
+    const attemptStart = Date.now();
+    const output = options.workerPool
+      ? await options.workerPool.run(encoding, getZlibOptions(encoding, levelOptions, filePath, source.length), source)
+      : await compressBuffer(source, encoding, levelOptions, filePath);
+    lastDuration = Date.now() - attemptStart;
+    if (budget) {
+      budget.remaining -= lastDuration;
+    }
+
+    if (!best || output.length < best.output.length) {
+      best = { output, level };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Counts the levels chosen by `'auto'` tuning for a file's variants.
+ */
+function addTunedLevels(stats: CompressionStats, result: FileCompressionResult): void {
+  for (const variant of result.variants) {
+    if (variant.level === undefined) continue;
+    const tunedLevels = stats.tunedLevels = stats.tunedLevels ?? {};
+    const counts = tunedLevels[variant.encoding as Encoding] = tunedLevels[variant.encoding as Encoding] ?? {};
+    counts[variant.level] = (counts[variant.level] ?? 0) + 1;
+  }
+}
+
+/**
+ * Per-encoding counters in CompressionStats.
+ */
+const ENCODING_STATS_KEYS: Record<Encoding, 'brotliFiles' | 'gzipFiles' | 'zstdFiles'> = {
+  [CompressionType.BROTLI]: 'brotliFiles',
+  [CompressionType.GZIP]: 'gzipFiles',
+  [CompressionType.ZSTD]: 'zstdFiles'
+};
+
+/**
+ * File extensions compressed with Brotli's text and font modes when the mode is `auto`.
+ */
+const BROTLI_TEXT_EXTENSIONS = ['js', 'mjs', 'cjs', 'css', 'html', 'htm', 'json', 'map', 'svg', 'xml', 'txt', 'md', 'csv', 'webmanifest'];
+const BROTLI_FONT_EXTENSIONS = ['woff', 'woff2', 'ttf', 'otf', 'eot'];
+
+/**
+ * Maps a Brotli mode, resolving `auto` from the file extension, to its zlib constant.
+ */
+function getBrotliMode(mode: BrotliMode, filePath?: string): number {
+  if (mode === 'auto') {
+    const ext = filePath ? path.extname(filePath).slice(1).toLowerCase() : '';
+    mode = BROTLI_TEXT_EXTENSIONS.includes(ext) ? 'text' : BROTLI_FONT_EXTENSIONS.includes(ext) ? 'font' : 'generic';
+  }
+
+  switch (mode) {
+    case 'text':
+      return zlib.constants.BROTLI_MODE_TEXT;
+    case 'font':
+      return zlib.constants.BROTLI_MODE_FONT;
+    default:
+      return zlib.constants.BROTLI_MODE_GENERIC;
+  }
+}
+
+/**
+ * Returns the Brotli encoder parameters for a file of the given size.
+ */
+function getBrotliParams(options: BufferCompressionOptions, filePath?: string, size?: number): Record<number, number> {
+  const { mode = 'auto', lgwin, lgblock, largeWindow = false } = options.brotli ?? {};
+  const params: Record<number, number> = {
+    [zlib.constants.BROTLI_PARAM_QUALITY]: Math.min(Math.max(options.quality, 0), 11),
+    [zlib.constants.BROTLI_PARAM_MODE]: getBrotliMode(mode, filePath),
+  };
+
+  if (largeWindow) {
+    params[zlib.constants.BROTLI_PARAM_LARGE_WINDOW] = 1;
+  }
+  if (lgwin !== undefined) {
+    params[zlib.constants.BROTLI_PARAM_LGWIN] = Math.min(Math.max(lgwin, 10), largeWindow ? 30 : 24);
+  }
+  if (lgblock !== undefined) {
+    params[zlib.constants.BROTLI_PARAM_LGBLOCK] = Math.min(Math.max(lgblock, 16), 24);
+  }
+  if (size !== undefined) {
+    params[zlib.constants.BROTLI_PARAM_SIZE_HINT] = size;
+  }
+
+  return params;
+}
+
+/**
+ * Returns the zlib options for an encoding, plus the Zopfli iterations for
+ * Gzip with the `zopfli` strategy. These fully describe the encoder output,
+ * so they also serve as part of the cache key. The file path and size tune
+ * Brotli's mode and size hint when known.
+ */
+function getZlibOptions(
+  encoding: Encoding,
+  options: BufferCompressionOptions,
+  filePath?: string,
+  size?: number
+): EncoderOptions {
+  switch (encoding) {
+    case CompressionType.GZIP:
+      return { level: Math.min(Math.max(options.gzipLevel, 0), 9), iterations: getZopfliIterations(encoding, options) };
+    case CompressionType.ZSTD:
+      return {
+        params: {
+          [zlib.constants.ZSTD_c_compressionLevel]: Math.min(Math.max(options.zstdLevel, 1), 22),
+        },
+      };
+    default:
+      return { params: getBrotliParams(options, filePath, size) };
+  }
+}
+
+/**
+ * Returns the number of Zopfli iterations when an encoding is Gzip with the
+ * `zopfli` strategy, or `undefined` when zlib does the encoding.
+ */
+function getZopfliIterations(encoding: Encoding, options: BufferCompressionOptions): number | undefined {
+  if (encoding !== CompressionType.GZIP || options.gzip?.strategy !== 'zopfli') {
+    return undefined;
+  }
+  return Math.max(Math.floor(options.gzip.iterations ?? 15), 1);
+}
+
+/**
+ * Returns the candidate levels when an encoding is set to `'auto'`. Zopfli
+ * output has no level to tune.
+ */
+function getTunedLevels(encoding: Encoding, options: CompressionOptions): number[] | undefined {
+  return getZopfliIterations(encoding, options) === undefined ? options.autoLevels?.[encoding] : undefined;
+}
+
+/**
+ * Builds the cache key for a file's content compressed with an encoding and its parameters.
+ * Tuned output is keyed by its candidate levels instead of the level it was compressed at.
+ */
+function getCacheKey(
+  contentHash: string,
+  encoding: Encoding,
+  options: CompressionOptions,
+  filePath: string,
+  size: number
+): string {
+  const params = JSON.stringify(getZlibOptions(encoding, options, filePath, size));
+  const levels = getTunedLevels(encoding, options);
+  const tuning = levels ? `auto(${levels.join(',')}):` : '';
+  const key = crypto.createHash('sha256').update(`${contentHash}:${encoding}:${tuning}${params}`).digest('hex');
+  return `${key}.${ENCODING_EXTENSIONS[encoding]}`;
+}
+
+/**
+ * Reads the level that tuning chose for a cache entry, stored next to it.
+ */
+function readCachedLevel(cachePath: string): number | undefined {
+  try {
+    const level = parseInt(fs.readFileSync(`${cachePath}.level`, 'utf-8'), 10);
+    return Number.isNaN(level) ? undefined : level;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stores freshly compressed output (a file path or buffer) in the cache,
+ * along with the level that tuning chose for it. Cache write failures are ignored.
+ */
+function storeInCache(compressed: string | Buffer, cachePath: string, level?: number): void {
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    if (level !== undefined) {
+      fs.writeFileSync(`${cachePath}.level`, String(level));
+    }
+    if (typeof compressed === 'string') {
+      fs.copyFileSync(compressed, tempPath);
+    } else {
+      fs.writeFileSync(tempPath, compressed);
+    }
+    fs.renameSync(tempPath, cachePath);
+  } catch {
+    try {
+      fs.rmSync(tempPath, { force: true });
+    } catch {
+      // Nothing left to clean up
+    }
+  }
+}
+
+/**
+ * Compresses a file with the given encoding into the output path.
+ */
+function compressWithEncoding(
+  filePath: string,
+  outputPath: string,
+  encoding: Encoding,
+  options: CompressionOptions,
+  size: number
+): Promise<{compressedSize: number}> {
+  switch (encoding) {
+    case CompressionType.GZIP:
+      return compressWithGzip(filePath, outputPath, options);
+    case CompressionType.ZSTD:
+      return compressWithZstd(filePath, outputPath, options);
+    default:
+      return compressWithBrotli(filePath, outputPath, options, size);
+  }
+}
+
+/**
+ * Streams a file through an encoder into the output path. On failure every
+ * stream is destroyed so the output file is closed before it is removed.
+ */
+function compressToFile(
+  filePath: string,
+  outputPath: string,
+  compressStream: Transform
+): Promise<{compressedSize: number}> {
+  return new Promise((resolve, reject) => {
+    const readStream = fs.createReadStream(filePath);
+    const writeStream = fs.createWriteStream(outputPath);
+
+    // Count the encoder's output; write streams don't emit 'data'.
+    let compressedSize = 0;
+
+    compressStream.on('data', (chunk: Buffer) => {
+      compressedSize += chunk.length;
+    });
+
+    readStream.pipe(compressStream).pipe(writeStream);
+
+    writeStream.on('finish', () => {
+      resolve({ compressedSize });
+    });
+
+    const fail = (error: Error) => {
+      readStream.destroy();
+      compressStream.destroy();
+      writeStream.destroy();
+      reject(error);
+    };
+    writeStream.on('error', fail);
+    compressStream.on('error', fail);
+    readStream.on('error', fail);
+  });
+}
+
+/**
+ * Compresses a file using Brotli.
+ */
+function compressWithBrotli(
+  filePath: string,
+  outputPath: string,
+  options: CompressionOptions,
+  size: number
+): Promise<{compressedSize: number}> {
+  const zlibOptions = getZlibOptions(CompressionType.BROTLI, options, filePath, size);
+  const compressStream = options.workerPool
+    ? options.workerPool.createStream(CompressionType.BROTLI, zlibOptions)
+    : zlib.createBrotliCompress(zlibOptions);
+
+  return compressToFile(filePath, outputPath, compressStream);
+}
+
+/**
+ * Compresses a file using Gzip.
+ */
+async function compressWithGzip(filePath: string, outputPath: string, options: CompressionOptions): Promise<{compressedSize: number}> {
+  const zlibOptions = getZlibOptions(CompressionType.GZIP, options);
+  if (zlibOptions.iterations !== undefined && !options.workerPool) {
+    const output = zopfliGzip(await fs.promises.readFile(filePath), zlibOptions.iterations);
+    await fs.promises.writeFile(outputPath, output);
+    return { compressedSize: output.length };
+  }
+
+  const compressStream = options.workerPool
+    ? options.workerPool.createStream(CompressionType.GZIP, zlibOptions)
+    : zlib.createGzip(zlibOptions);
+
+  return compressToFile(filePath, outputPath, compressStream);
+}
+
+/**
+ * Compresses a file using Zstandard.
+ */
+async function compressWithZstd(filePath: string, outputPath: string, options: CompressionOptions): Promise<{compressedSize: number}> {
+  if (typeof zlib.createZstdCompress !== 'function') {
+    throw new Error('Zstandard compression requires Node.js 22.15.0 or later');
+  }
+
+  const zlibOptions = getZlibOptions(CompressionType.ZSTD, options);
+  const compressStream = options.workerPool
+    ? options.workerPool.createStream(CompressionType.ZSTD, zlibOptions)
+    : zlib.createZstdCompress(zlibOptions);
+
+  return compressToFile(filePath, outputPath, compressStream);
+}
+
+/**
+ * Temporary files being written, removed if the process is interrupted.
+ */
+const pendingWrites = new Set<string>();
+
+/**
+ * Removes unfinished temporary files, then lets the signal terminate the
+ * process unless someone else handles it.
+ */
+function handleInterrupt(signal: NodeJS.Signals): void {
+  for (const tempPath of pendingWrites) {
+    fs.rmSync(tempPath, { force: true });
+  }
+  pendingWrites.clear();
+  untrackWrites();
+
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+}
+
+function untrackWrites(): void {
+  process.removeListener('SIGINT', handleInterrupt);
+  process.removeListener('SIGTERM', handleInterrupt);
+}
+
+/**
+ * Writes a variant through a temporary file that is renamed into place only
+ * once complete, so a failed or interrupted write never leaves a truncated
+ * variant behind. The variant gets the original's mode and modification time.
+ */
+async function writeVariant<T>(
+  originalPath: string,
+  variantPath: string,
+  write: (tempPath: string) => Promise<T> | T
+): Promise<T> {
+  const tempPath = `${variantPath}.${process.pid}.tmp`;
+  if (pendingWrites.size === 0) {
+    process.on('SIGINT', handleInterrupt);
+    process.on('SIGTERM', handleInterrupt);
+  }
+  pendingWrites.add(tempPath);
+
+  try {
+    const result = await write(tempPath);
+    const stats = fs.statSync(originalPath);
+    fs.chmodSync(tempPath, stats.mode & 0o7777);
+    fs.utimesSync(tempPath, stats.atime, stats.mtime);
+    fs.renameSync(tempPath, variantPath);
+    return result;
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  } finally {
+    pendingWrites.delete(tempPath);
+    if (pendingWrites.size === 0) {
+      untrackWrites();
+    }
+  }
+}
+
+/**
+ * Deletes the variants a failed attempt wrote for a file, so that neither a
+ * retry nor `skipExisting` sees a partial set.
+ */
+function removeWrittenVariants(results: FileCompressionResult): void {
+  const paths = [
+    ...results.variants.filter(variant => !variant.source).map(variant => variant.path),
+    ...(results.dictionaryVariants ?? []).map(variant => variant.path)
+  ];
+  for (const variantPath of paths) {
+    fs.rmSync(variantPath, { force: true });
+  }
+}
+
+/**
+ * Compression levels used when compressing in-memory buffers.
+ */
+interface BufferCompressionOptions {
+  quality: BrotliQuality | number;
+  gzipLevel: GzipLevel | number;
+  zstdLevel: ZstdLevel | number;
+  brotli?: BrotliEncoderOptions;
+  gzip?: GzipEncoderOptions;
+}
+
+/**
+ * Compresses an in-memory buffer with the given encoding.
+ */
+function compressBuffer(
+  buffer: Buffer,
+  encoding: Encoding,
+  options: BufferCompressionOptions,
+  filePath?: string
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const callback = (error: Error | null, result: Buffer) => {
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const zlibOptions = getZlibOptions(encoding, options, filePath, buffer.length);
+    switch (encoding) {
+      case CompressionType.GZIP: {
+        if (zlibOptions.iterations !== undefined) {
+          try {
+            resolve(zopfliGzip(buffer, zlibOptions.iterations));
+          } catch (error) {
+            reject(error);
+          }
+          return;
+        }
+        zlib.gzip(buffer, zlibOptions, callback);
+        break;
+      }
+      case CompressionType.ZSTD:
+        if (typeof zlib.zstdCompress !== 'function') {
+          reject(new Error('Zstandard compression requires Node.js 22.15.0 or later'));
+          return;
+        }
+        zlib.zstdCompress(buffer, zlibOptions, callback);
+        break;
+      default:
+        zlib.brotliCompress(buffer, zlibOptions, callback);
+    }
+  });
+}
+
+/**
+ * Parses an `Accept-Encoding` header into a map of lowercase tokens to q-values.
+ */
+function parseAcceptEncoding(header: string | string[] | undefined): Map<string, number> {
+  const accepted = new Map<string, number>();
+  const value = Array.isArray(header) ? header.join(',') : header;
+  if (!value) return accepted;
+
+  for (const part of value.split(',')) {
+    const [token, ...params] = part.trim().split(';');
+    if (!token) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [key, rawValue] = param.trim().split('=');
+      if (key.trim().toLowerCase() === 'q') {
+        const parsed = parseFloat(rawValue);
+        q = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      }
+    }
+    accepted.set(token.trim().toLowerCase(), q);
+  }
 
-  try {
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    const files: string[] = [];
+  return accepted;
+}
 
-    for (const entry of entries) {
-      const fullPath = path.resolve(dir, entry.name);
-      
-      if (entry.isDirectory()) {
-        try {
-          const subFiles = await findFiles(
-            fullPath, 
-            extensions, 
-            minSize, 
-            maxSize,
-            excludePatterns,
-            includePatterns,
-            shouldCompress,
-            skipExisting,
-            type,
-            visitedDirs
-          );
-          files.push(...subFiles);
-        } catch (error) {
-          // Skip directories that can't be accessed
-          continue;
+/**
+ * Picks the configured encoding the client prefers most. Ties are broken by the
+ * order of the configured encodings. Returns undefined if none are acceptable.
+ */
+function negotiateEncoding(
+  header: string | string[] | undefined,
+  encodings: Encoding[]
+): Encoding | undefined {
+  const accepted = parseAcceptEncoding(header);
+  let best: Encoding | undefined;
+  let bestQ = 0;
+
+  for (const encoding of encodings) {
+    const q = accepted.get(ENCODING_TOKENS[encoding]) ?? accepted.get('*') ?? 0;
+    if (q > bestQ) {
+      best = encoding;
+      bestQ = q;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Appends a value to a comma-separated `Vary` header if it isn't already listed.
+ */
+function appendVary(res: ServerResponse, field: string): void {
+  const current = res.getHeader('Vary');
+  const value = Array.isArray(current) ? current.join(', ') : current?.toString();
+
+  if (!value) {
+    res.setHeader('Vary', field);
+  } else if (value !== '*' && !value.split(',').some(v => v.trim().toLowerCase() === field.toLowerCase())) {
+    res.setHeader('Vary', `${value}, ${field}`);
+  }
+}
+
+/**
+ * Checks whether a response is a server-sent event stream, which must reach
+ * the client as it is written.
+ */
+function isEventStream(res: ServerResponse): boolean {
+  return res.getHeader('Content-Type')?.toString().split(';')[0].trim().toLowerCase() === 'text/event-stream';
+}
+
+/**
+ * Checks whether a response content type is worth compressing.
+ */
+function isCompressibleContentType(contentType: string): boolean {
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  if (mime === 'text/event-stream') return false;
+  return mime.startsWith('text/') ||
+    /\/(javascript|json|xml|wasm|manifest\+json)$/.test(mime) ||
+    /\+(json|xml)$/.test(mime) ||
+    mime === 'image/svg+xml' ||
+    mime === 'image/x-icon' ||
+    mime === 'image/vnd.microsoft.icon';
+}
+
+/**
+ * Interface for dev server middleware options used internally.
+ */
+interface CompressionMiddlewareOptions extends BufferCompressionOptions {
+  minSize: number;
+  cacheSize: number;
+}
+
+/**
+ * Creates a connect middleware that buffers responses and compresses them with
+ * the encoding negotiated from `Accept-Encoding`. Compressed bodies are cached
+ * in memory, keyed by encoding and a hash of the uncompressed content. Event
+ * streams are passed through unbuffered.
+ */
+function createCompressionMiddleware(
+  encodings: Encoding[],
+  options: CompressionMiddlewareOptions
+): Connect.NextHandleFunction {
+  const cache = new Map<string, Buffer>();
+
+  return (req, res, next) => {
+    const encoding = negotiateEncoding(req.headers['accept-encoding'], encodings);
+    if (!encoding || req.method === 'HEAD') {
+      next();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    const originalWrite = res.write;
+    const originalEnd = res.end;
+    const originalWriteHead = res.writeHead;
+
+    const toBuffer = (chunk: string | Uint8Array, chunkEncoding?: BufferEncoding): Buffer =>
+      typeof chunk === 'string' ? Buffer.from(chunk, chunkEncoding) : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+
+    const restore = () => {
+      res.write = originalWrite;
+      res.end = originalEnd;
+      res.writeHead = originalWriteHead;
+    };
+
+    // Stops buffering for good, sending whatever was written so far.
+    const passThrough = () => {
+      restore();
+      if (chunks.length > 0) {
+        res.write(Buffer.concat(chunks.splice(0)));
+      }
+    };
+
+    // Headers are applied with setHeader so they can still be changed once the body is known.
+    res.writeHead = function (
+      statusCode: number,
+      statusMessage?: string | OutgoingHttpHeaders | OutgoingHttpHeader[],
+      headers?: OutgoingHttpHeaders | OutgoingHttpHeader[]
+    ) {
+      res.statusCode = statusCode;
+      if (typeof statusMessage === 'string') {
+        res.statusMessage = statusMessage;
+      } else {
+        headers = statusMessage;
+      }
+      if (Array.isArray(headers)) {
+        for (let i = 0; i < headers.length; i += 2) res.setHeader(String(headers[i]), headers[i + 1]);
+      } else if (headers) {
+        for (const [name, value] of Object.entries(headers)) {
+          if (value !== undefined) res.setHeader(name, value);
         }
-      } else if (extensions.some(ext => entry.name.endsWith(`.${ext}`))) {
-        try {
-          const stats = fs.statSync(fullPath);
-          const fileSize = stats.size;
-          
-          // Check if file should be compressed
-          if (!shouldCompressFile(
-            fullPath, 
-            fileSize, 
-            minSize, 
-            maxSize,
-            excludePatterns,
-            includePatterns,
-            shouldCompress
-          )) {
-            continue;
-          }
-          
-          // Skip if compressed file already exists
-          if (skipExisting && compressedFileExists(fullPath, type)) {
-            continue;
+      }
+      if (isEventStream(res)) {
+        passThrough();
+        return res.writeHead(statusCode);
+      }
+      return res;
+    } as typeof res.writeHead;
+
+    res.write = function (
+      chunk: string | Uint8Array,
+      chunkEncoding?: BufferEncoding | ((error: Error | null | undefined) => void),
+      callback?: (error: Error | null | undefined) => void
+    ) {
+      const done = typeof chunkEncoding === 'function' ? chunkEncoding : callback;
+      const body = chunk != null ? toBuffer(chunk, typeof chunkEncoding === 'string' ? chunkEncoding : undefined) : undefined;
+      if (isEventStream(res)) {
+        passThrough();
+        return body ? res.write(body, done) : true;
+      }
+      if (body) chunks.push(body);
+      if (done) process.nextTick(done);
+      return true;
+    } as typeof res.write;
+
+    res.end = function (
+      chunk?: string | Uint8Array | (() => void),
+      chunkEncoding?: BufferEncoding | (() => void),
+      callback?: () => void
+    ) {
+      if (chunk != null && typeof chunk !== 'function') {
+        chunks.push(toBuffer(chunk, typeof chunkEncoding === 'string' ? chunkEncoding : undefined));
+      }
+      const done = [chunk, chunkEncoding, callback].find(arg => typeof arg === 'function');
+
+      restore();
+
+      const body = Buffer.concat(chunks);
+      const contentType = res.getHeader('Content-Type')?.toString() || '';
+      const cacheControl = res.getHeader('Cache-Control')?.toString() || '';
+
+      if (
+        res.statusCode !== 200 ||
+        res.getHeader('Content-Encoding') ||
+        cacheControl.includes('no-transform') ||
+        body.length < options.minSize ||
+        !isCompressibleContentType(contentType)
+      ) {
+        if (body.length > 0 && res.getHeader('Content-Length') === undefined) {
+          res.setHeader('Content-Length', body.length);
+        }
+        return res.end(body, done);
+      }
+
+      const hash = crypto.createHash('sha1').update(body).digest('hex');
+      const cacheKey = `${encoding}:${hash}`;
+      const cached = cache.get(cacheKey);
+      const compressed = cached ? Promise.resolve(cached) : compressBuffer(body, encoding, options);
+
+      compressed.then(
+        (result) => {
+          if (!cached) {
+            cache.set(cacheKey, result);
+            if (cache.size > options.cacheSize) {
+              cache.delete(cache.keys().next().value!);
+            }
           }
-          
-          files.push(fullPath);
-        } catch (error) {
-          // Skip files that can't be accessed
-          continue;
+          res.setHeader('Content-Encoding', ENCODING_TOKENS[encoding]);
+          res.setHeader('Content-Length', result.length);
+          appendVary(res, 'Accept-Encoding');
+          res.end(result, done);
+        },
+        () => {
+          // Fall back to the uncompressed body if the encoder is unavailable.
+          res.setHeader('Content-Length', body.length);
+          res.end(body, done);
+        }
+      );
+      return res;
+    } as typeof res.end;
+
+    next();
+  };
+}
+
+/**
+ * MIME types for files commonly emitted by Vite builds.
+ */
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  cjs: 'text/javascript; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  map: 'application/json; charset=utf-8',
+  webmanifest: 'application/manifest+json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  xml: 'application/xml; charset=utf-8',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  wasm: 'application/wasm',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+/**
+ * Looks up the MIME type for a file path by extension.
+ */
+function getMimeType(filePath: string): string {
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  return MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+/**
+ * Creates a connect middleware that serves precompressed siblings of files in
+ * the output directory. Works even when the original file was deleted.
+ * Responses carry `headers` and the same validators as Vite's static handler.
+ */
+function createPrecompressedMiddleware(
+  outDir: string,
+  base: string,
+  encodings: Encoding[],
+  headers: OutgoingHttpHeaders = {}
+): Connect.NextHandleFunction {
+  // Prefer configured encodings, but serve any sibling that exists on disk.
+  const candidates = [...encodings, ...(Object.keys(ENCODING_EXTENSIONS) as Encoding[])]
+    .filter((encoding, index, all) => all.indexOf(encoding) === index);
+  const basePath = base && base.startsWith('/') ? base : '/';
+
+  return (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    } catch {
+      next();
+      return;
+    }
+
+    if (!pathname.startsWith(basePath)) {
+      next();
+      return;
+    }
+    pathname = `/${pathname.slice(basePath.length)}`;
+    if (pathname.endsWith('/')) {
+      pathname += 'index.html';
+    }
+
+    const filePath = path.join(outDir, pathname);
+    if (!filePath.startsWith(outDir + path.sep)) {
+      next();
+      return;
+    }
+
+    const available = candidates.filter(encoding => {
+      try {
+        return fs.statSync(`${filePath}.${ENCODING_EXTENSIONS[encoding]}`).isFile();
+      } catch {
+        return false;
+      }
+    });
+    if (available.length === 0) {
+      next();
+      return;
+    }
+
+    appendVary(res, 'Accept-Encoding');
+
+    const encoding = negotiateEncoding(req.headers['accept-encoding'], available);
+    if (!encoding) {
+      next();
+      return;
+    }
+
+    const compressedPath = `${filePath}.${ENCODING_EXTENSIONS[encoding]}`;
+    const { size, mtime } = fs.statSync(compressedPath);
+    // Weak ETag in the format sirv uses, taken from the variant so each encoding has its own
+    const etag = `W/"${size}-${mtime.getTime()}"`;
+
+    res.setHeader('Content-Type', getMimeType(filePath));
+    res.setHeader('Cache-Control', 'no-cache');
+    // User headers win over the defaults above, like they do for Vite's own static handler
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined) res.setHeader(name, value);
+    }
+    res.setHeader('Content-Encoding', ENCODING_TOKENS[encoding]);
+    res.setHeader('ETag', etag);
+
+    if (req.headers['if-none-match'] === etag) {
+      res.statusCode = 304;
+      res.end();
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Length', size);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    fs.createReadStream(compressedPath)
+      .on('error', next)
+      .pipe(res);
+  };
+}
+
+/**
+ * Computes the SHA-256 hash of a file's contents.
+ */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Converts an absolute path to a POSIX path relative to the output directory.
+ */
+function toOutDirPath(outDir: string, filePath: string): string {
+  return path.relative(outDir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Builds the compression manifest for the given file results.
+ */
+function buildManifest(
+  outDir: string,
+  files: FileCompressionResult[],
+  settings: CompressionManifest['settings'],
+  compressors: CustomCompressor[] = []
+): CompressionManifest {
+  const manifest: CompressionManifest = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    settings,
+    files: {}
+  };
+
+  const sorted = [...files].sort((a, b) => a.filePath.localeCompare(b.filePath));
+  for (const file of sorted) {
+    // Files whose variants were all discarded or failed are listed without variants
+    const variants: Record<string, ManifestVariant> = {};
+    for (const variant of file.variants) {
+      variants[getEncodingToken(variant.encoding, compressors)] = {
+        path: toOutDirPath(outDir, variant.path),
+        size: variant.size,
+        ratio: file.totalOriginalSize > 0
+          ? Number((((file.totalOriginalSize - variant.size) / file.totalOriginalSize) * 100).toFixed(2))
+          : 0,
+        level: variant.level
+      };
+    }
+
+    manifest.files[toOutDirPath(outDir, file.filePath)] = {
+      size: file.totalOriginalSize || getFileSize(file.filePath),
+      hash: file.hash || '',
+      deleted: !!file.deleted,
+      variants
+    };
+  }
+
+  return manifest;
+}
+
+/**
+ * Describes the variants already on disk for a file skipped by `skipExisting`.
+ * The original is only hashed when `hashContent` is set.
+ */
+async function describeExistingVariants(
+  filePath: string,
+  fileSettings: FileSettings,
+  hashContent: boolean
+): Promise<FileCompressionResult> {
+  const encodings: { encoding: string; extension: string }[] = [
+    ...fileSettings.encodings.map(encoding => ({ encoding, extension: ENCODING_EXTENSIONS[encoding] })),
+    ...fileSettings.compressors.map(compressor => ({ encoding: compressor.name, extension: compressor.extension }))
+  ];
+  const variants = encodings.map(({ encoding, extension }) => {
+    const variantPath = `${filePath}.${extension}`;
+    return { encoding, path: variantPath, size: fs.statSync(variantPath).size, duration: 0 };
+  });
+
+  return {
+    compressedFiles: 0,
+    skippedFiles: 0,
+    failedFiles: 0,
+    totalOriginalSize: fs.statSync(filePath).size,
+    totalCompressedSize: variants.reduce((total, variant) => total + variant.size, 0),
+    filePath,
+    hash: hashContent ? await hashFile(filePath) : undefined,
+    variants,
+    skipped: [],
+    errors: []
+  };
+}
+
+/**
+ * Writes the compression manifest for the given file results.
+ */
+function writeManifest(
+  manifestPath: string,
+  outDir: string,
+  files: FileCompressionResult[],
+  settings: CompressionManifest['settings'],
+  compressors: CustomCompressor[] = []
+): void {
+  const manifest = buildManifest(outDir, files, settings, compressors);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Checks every compressed variant that has a budget. Files are matched by
+ * their path relative to `outDir` or by the name of their chunk.
+ */
+function checkBudgets(
+  budgets: CompressionBudget[],
+  outDir: string,
+  files: Pick<CompressionFileResult, 'filePath' | 'variants'>[],
+  chunkNames?: Map<string, string>
+): BudgetCheck[] {
+  const checks: BudgetCheck[] = [];
+
+  for (const file of files) {
+    const relativePath = toOutDirPath(outDir, file.filePath);
+    const chunkName = chunkNames?.get(file.filePath);
+
+    for (const budget of budgets) {
+      if (budget.match !== chunkName && !matchesGlob(relativePath, budget.match)) continue;
+
+      for (const variant of file.variants) {
+        // Budgets only cover the built-in encodings
+        if (!(variant.encoding in ENCODING_NAMES)) continue;
+
+        const limit = budget[variant.encoding as Encoding];
+        if (limit !== undefined) {
+          checks.push({
+            file: relativePath,
+            encoding: variant.encoding as CompressionType,
+            size: variant.size,
+            limit,
+            severity: budget.severity ?? 'error',
+            exceeded: variant.size > limit
+          });
         }
       }
     }
-    
-    return files;
-  } catch (error) {
-    // Directory doesn't exist or can't be accessed
-    return [];
   }
+
+  return checks;
+}
+
+/**
+ * Logs a table of exceeded budgets and throws if any of them has severity `error`.
+ */
+function enforceBudgets(checks: BudgetCheck[]): void {
+  const violations = checks.filter(check => check.exceeded);
+  if (violations.length === 0) return;
+
+  const rows = [
+    ['File', 'Encoding', 'Size', 'Budget', 'Over', 'Severity'],
+    ...violations.map(violation => [
+      violation.file,
+      ENCODING_NAMES[violation.encoding as Encoding],
+      formatBytes(violation.size),
+      formatBytes(violation.limit),
+      `+${formatBytes(violation.size - violation.limit)}`,
+      violation.severity
+    ])
+  ];
+
+  const errors = violations.filter(violation => violation.severity === 'error').length;
+  const log = errors > 0 ? console.error : console.warn;
+  log(`\n[vite-plugin-brotli-compress] Compressed size budgets exceeded:\n${formatTable(rows)}\n`);
+
+  if (errors > 0) {
+    throw new Error(`[vite-plugin-brotli-compress] ${errors} compressed size budget${errors === 1 ? '' : 's'} exceeded`);
+  }
+}
+
+/**
+ * Default output files for each report format, relative to the project root.
+ */
+const REPORT_FILES: Record<ReporterType, string> = {
+  json: 'compression-report.json',
+  markdown: 'compression-report.md',
+  junit: 'compression-report.xml'
+};
+
+/**
+ * Builds the report for a finished compression run.
+ */
+function createReport(
+  outDir: string,
+  encodings: Encoding[],
+  compressors: CustomCompressor[],
+  result: CompressDirectoryResult,
+  budgets: BudgetCheck[]
+): CompressionReport {
+  const upToDate = new Set(result.upToDateFiles);
+  const files = [...result.files, ...result.upToDateFiles ?? []]
+    .sort((a, b) => a.filePath.localeCompare(b.filePath))
+    .map(file => {
+      const variants: Record<string, CompressionReportVariant> = {};
+      for (const variant of file.variants) {
+        variants[getEncodingToken(variant.encoding, compressors)] = {
+          path: toOutDirPath(outDir, variant.path),
+          size: variant.size,
+          ratio: file.originalSize > 0
+            ? Number((((file.originalSize - variant.size) / file.originalSize) * 100).toFixed(2))
+            : 0,
+          duration: variant.duration ?? 0
+        };
+      }
+      return {
+        file: toOutDirPath(outDir, file.filePath),
+        originalSize: file.originalSize,
+        deleted: file.deleted,
+        variants,
+        duration: file.variants.reduce((total, variant) => total + (variant.duration ?? 0), 0),
+        skipped: file.skipped,
+        errors: file.errors,
+        upToDate: upToDate.has(file) || undefined
+      };
+    });
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    outDir,
+    encodings: [
+      ...encodings.map(encoding => ENCODING_TOKENS[encoding]),
+      ...compressors.map(compressor => compressor.contentEncoding)
+    ],
+    stats: result.stats,
+    files,
+    budgets
+  };
+}
+
+/**
+ * Renders a report as Markdown, ready to paste into a pull request comment.
+ */
+function formatMarkdownReport(report: CompressionReport): string {
+  const { stats, encodings } = report;
+  const lines = [
+    '## Compression report',
+    '',
+    `Compressed ${stats.totalFiles} file${stats.totalFiles === 1 ? '' : 's'} with ${encodings.join(', ')} in ${stats.timeElapsed}ms: ` +
+      `${formatBytes(stats.totalOriginalSize)} → ${formatBytes(stats.totalCompressedSize)} (${stats.compressionRatio.toFixed(2)}% smaller).`,
+    '',
+    `| File | Original | ${encodings.join(' | ')} | Time |`,
+    `| --- | ---: |${encodings.map(() => ' ---: |').join('')} ---: |`
+  ];
+
+  for (const file of report.files) {
+    const variants = encodings.map(token => {
+      const variant = file.variants[token];
+      if (variant) return `${formatBytes(variant.size)} (-${variant.ratio}%)`;
+      return file.skipped.some(skip => ENCODING_TOKENS[skip.encoding as Encoding] === token) ? 'skipped' : '-';
+    });
+    lines.push(`| \`${file.file}\` | ${formatBytes(file.originalSize)} | ${variants.join(' | ')} | ${file.upToDate ? 'up to date' : `${file.duration}ms`} |`);
+  }
+
+  const failed = report.files.filter(file => file.errors.length > 0);
+  if (failed.length > 0) {
+    lines.push('', '### Failures', '');
+    for (const file of failed) {
+      lines.push(`- \`${file.file}\`: ${file.errors.join('; ')}`);
+    }
+  }
+
+  if (report.budgets.length > 0) {
+    lines.push('', '### Budgets', '', '| File | Encoding | Size | Budget | Status |', '| --- | --- | ---: | ---: | --- |');
+    for (const check of report.budgets) {
+      const status = !check.exceeded ? '✅ within budget' : check.severity === 'error' ? '❌ exceeded' : '⚠️ exceeded';
+      lines.push(`| \`${check.file}\` | ${ENCODING_TOKENS[check.encoding as Encoding]} | ${formatBytes(check.size)} | ${formatBytes(check.limit)} | ${status} |`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Escapes text for use in XML attributes and content.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Renders a report as JUnit XML. Every file and budget check is a test case;
+ * failed files and exceeded budgets are failures.
+ */
+function formatJUnitReport(report: CompressionReport): string {
+  const testCase = (suite: string, name: string, failure?: string, duration?: number) => {
+    const attributes = `classname="${suite}" name="${escapeXml(name)}"${duration === undefined ? '' : ` time="${(duration / 1000).toFixed(3)}"`}`;
+    return failure
+      ? `    <testcase ${attributes}>\n      <failure message="${escapeXml(failure)}"/>\n    </testcase>`
+      : `    <testcase ${attributes}/>`;
+  };
+
+  const fileCases = report.files.map(file =>
+    testCase('compression', file.file, file.errors.length > 0 ? file.errors.join('; ') : undefined, file.duration));
+  const budgetCases = report.budgets.map(check =>
+    testCase(
+      'budgets',
+      `${check.file} (${ENCODING_TOKENS[check.encoding as Encoding]})`,
+      check.exceeded ? `${formatBytes(check.size)} exceeds the budget of ${formatBytes(check.limit)} (${check.severity})` : undefined
+    ));
+
+  const fileFailures = report.files.filter(file => file.errors.length > 0).length;
+  const budgetFailures = report.budgets.filter(check => check.exceeded).length;
+  const time = (report.stats.timeElapsed / 1000).toFixed(3);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="vite-plugin-brotli-compress" tests="${fileCases.length + budgetCases.length}" failures="${fileFailures + budgetFailures}" time="${time}">`,
+    `  <testsuite name="compression" tests="${fileCases.length}" failures="${fileFailures}" time="${time}">`,
+    ...fileCases,
+    '  </testsuite>',
+    `  <testsuite name="budgets" tests="${budgetCases.length}" failures="${budgetFailures}">`,
+    ...budgetCases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Writes a report in each requested format.
+ */
+function writeReports(reporters: (ReporterType | ReporterOptions)[], root: string, report: CompressionReport): void {
+  for (const reporter of reporters) {
+    const { type, outputFile = REPORT_FILES[type] }: ReporterOptions = typeof reporter === 'string' ? { type: reporter } : reporter;
+    const content = type === 'json'
+      ? `${JSON.stringify(report, null, 2)}\n`
+      : type === 'markdown' ? formatMarkdownReport(report) : formatJUnitReport(report);
+
+    const reportPath = path.resolve(root, outputFile);
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, content);
+  }
+}
+
+/**
+ * Checks budgets and writes reports for a finished run, then throws if a
+ * budget with severity `error` was exceeded.
+ */
+function finishCompression(
+  settings: ResolvedOptions,
+  outDir: string,
+  result: CompressDirectoryResult,
+  root: string,
+  chunkNames?: Map<string, string>
+): void {
+  const checks = checkBudgets(settings.budgets, outDir, [...result.files, ...result.upToDateFiles ?? []], chunkNames);
+
+  if (settings.reporters.length > 0) {
+    writeReports(settings.reporters, root, createReport(outDir, getAllEncodings(settings), settings.compressors, result, checks));
+  }
+
+  enforceBudgets(checks);
+}
+
+/**
+ * Original and compressed sizes of the files sharing a stable name.
+ */
+interface SizeRecord {
+  size: number;
+  /** Compressed sizes keyed by `Content-Encoding` token */
+  variants: Record<string, number>;
+}
+
+/**
+ * Difference between the baseline and the current build for one stable name.
+ */
+interface SizeChange {
+  file: string;
+  status: 'added' | 'removed' | 'grown' | 'shrunk';
+  before?: SizeRecord;
+  after?: SizeRecord;
+}
+
+/**
+ * Strips a content hash such as `-B_x3Kd9a` from a file name, so
+ * `assets/index-B_x3Kd9a.js` becomes `assets/index.js`. Hashes are the
+ * 8 characters before the extension and contain an uppercase letter or digit.
+ */
+function getStableName(filePath: string): string {
+  return filePath.replace(/-([\w-]{8})(?=\.[^/]+$)/, (match, hash: string) => /[A-Z0-9]/.test(hash) ? '' : match);
+}
+
+/**
+ * Groups the files of a manifest by stable name, summing their sizes.
+ */
+function summarizeManifest(manifest: CompressionManifest): Map<string, SizeRecord> {
+  const records = new Map<string, SizeRecord>();
+
+  for (const [filePath, entry] of Object.entries(manifest.files)) {
+    const name = getStableName(filePath);
+    const record = records.get(name) ?? { size: 0, variants: {} };
+    record.size += entry.size;
+    for (const [token, variant] of Object.entries(entry.variants)) {
+      record.variants[token] = (record.variants[token] ?? 0) + variant.size;
+    }
+    records.set(name, record);
+  }
+
+  return records;
 }
 
 /**
- * Compresses multiple files with the given options.
+ * Compares two manifests by stable name. Files whose sizes didn't change are omitted.
  */
-async function compressFiles(
-  files: string[], 
-  options: CompressionOptions
-): Promise<CompressionStats> {
-  const stats: CompressionStats = {
-    totalFiles: files.length,
-    compressedFiles: 0,
-    skippedFiles: 0,
-    failedFiles: 0,
-    totalOriginalSize: 0,
-    totalCompressedSize: 0,
-    compressionRatio: 0,
-    timeElapsed: 0,
-    brotliFiles: 0,
-    gzipFiles: 0
-  };
+function compareManifests(baseline: CompressionManifest, current: CompressionManifest): SizeChange[] {
+  const before = summarizeManifest(baseline);
+  const after = summarizeManifest(current);
+  const changes: SizeChange[] = [];
 
-  if (options.parallel) {
-    // Compress files in parallel with concurrency limit
-    const chunks = chunkArray(files, options.maxParallel);
-    
-    for (const chunk of chunks) {
-      const results = await Promise.allSettled(
-        chunk.map(filePath => compressFileWithRetry(filePath, options))
-      );
-      
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          stats.compressedFiles += result.value.compressedFiles;
-          stats.failedFiles += result.value.failedFiles;
-          stats.totalOriginalSize += result.value.totalOriginalSize;
-          stats.totalCompressedSize += result.value.totalCompressedSize;
-          stats.brotliFiles = (stats.brotliFiles || 0) + (result.value.brotliFiles || 0);
-          stats.gzipFiles = (stats.gzipFiles || 0) + (result.value.gzipFiles || 0);
-        } else {
-          stats.failedFiles++;
-          if (options.verbose) {
-            console.warn(`[vite-plugin-brotli-compress] Failed to compress file: ${result.reason}`);
-          }
-        }
-      }
+  for (const [file, record] of after) {
+    const previous = before.get(file);
+    if (!previous) {
+      changes.push({ file, status: 'added', after: record });
+      continue;
     }
-  } else {
-    // Compress files sequentially
-    for (const filePath of files) {
-      try {
-        const result = await compressFileWithRetry(filePath, options);
-        stats.compressedFiles += result.compressedFiles;
-        stats.failedFiles += result.failedFiles;
-        stats.totalOriginalSize += result.totalOriginalSize;
-        stats.totalCompressedSize += result.totalCompressedSize;
-        stats.brotliFiles = (stats.brotliFiles || 0) + (result.brotliFiles || 0);
-        stats.gzipFiles = (stats.gzipFiles || 0) + (result.gzipFiles || 0);
-      } catch (error) {
-        stats.failedFiles++;
-        if (options.verbose) {
-          console.warn(`[vite-plugin-brotli-compress] Failed to compress file ${filePath}:`, error);
-        }
-        if (options.errorCallback) {
-          options.errorCallback(error as Error, filePath);
-        }
-      }
+
+    // Classify by original size, falling back to compressed sizes when only the encoder output changed.
+    // Variants that were kept before but not now count too, so a file with none left is not `removed`.
+    const tokens = new Set([...Object.keys(record.variants), ...Object.keys(previous.variants)]);
+    const compressedDelta = [...tokens]
+      .reduce((total, token) => total + (record.variants[token] ?? 0) - (previous.variants[token] ?? 0), 0);
+    const delta = record.size - previous.size || compressedDelta;
+    if (delta !== 0) {
+      changes.push({ file, status: delta > 0 ? 'grown' : 'shrunk', before: previous, after: record });
     }
   }
 
-  stats.compressionRatio = stats.totalOriginalSize > 0 
-    ? ((stats.totalOriginalSize - stats.totalCompressedSize) / stats.totalOriginalSize) * 100 
-    : 0;
+  for (const [file, record] of before) {
+    if (!after.has(file)) {
+      changes.push({ file, status: 'removed', before: record });
+    }
+  }
 
-  return stats;
+  const order = ['added', 'removed', 'grown', 'shrunk'];
+  return changes.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status) || a.file.localeCompare(b.file));
 }
 
 /**
- * Compresses a file with retry logic.
+ * Reads a baseline manifest, warning instead of failing when it is missing or invalid.
  */
-async function compressFileWithRetry(
-  filePath: string, 
-  options: CompressionOptions
-): Promise<{
-  compressedFiles: number;
-  failedFiles: number;
-  totalOriginalSize: number;
-  totalCompressedSize: number;
-  brotliFiles?: number;
-  gzipFiles?: number;
-}> {
-  let lastError: Error | null = null;
-  
-  for (let attempt = 0; attempt <= options.retryAttempts; attempt++) {
-    try {
-      return await compressFile(filePath, options);
-    } catch (error) {
-      lastError = error as Error;
-      if (attempt < options.retryAttempts) {
-        if (options.verbose) {
-          console.warn(`[vite-plugin-brotli-compress] Retry ${attempt + 1}/${options.retryAttempts} for ${filePath}`);
-        }
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
-      }
+function loadBaseline(baselinePath: string): CompressionManifest | undefined {
+  if (!fs.existsSync(baselinePath)) {
+    console.warn(`[vite-plugin-brotli-compress] Baseline not found: ${baselinePath}`);
+    return undefined;
+  }
+
+  try {
+    const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'));
+    if (!baseline || typeof baseline.files !== 'object') {
+      throw new Error('missing "files"');
     }
+    return baseline;
+  } catch (error) {
+    console.warn(`[vite-plugin-brotli-compress] Ignoring invalid baseline ${baselinePath}:`, error);
+    return undefined;
   }
-  
-  // All retries failed
-  if (options.errorCallback) {
-    options.errorCallback(lastError!, filePath);
+}
+
+/**
+ * Logs how the current build's sizes differ from a baseline manifest.
+ */
+function logBaselineComparison(baseline: CompressionManifest, current: CompressionManifest): void {
+  const changes = compareManifests(baseline, current);
+  const tokens = [...new Set(
+    [baseline, current].flatMap(manifest =>
+      Object.values(manifest.files).flatMap(entry => Object.keys(entry.variants)))
+  )];
+
+  // Formats a size and its change, e.g. "12 KB (+1.5 KB)".
+  const describe = (before: number | undefined, after: number | undefined): string => {
+    if (after === undefined) return before === undefined ? '-' : `- (${formatDelta(-before)})`;
+    if (before === undefined) return formatBytes(after);
+    return `${formatBytes(after)} (${formatDelta(after - before)})`;
+  };
+
+  console.log('\n[vite-plugin-brotli-compress] Size changes compared to baseline:');
+
+  if (changes.length === 0) {
+    console.log('  No size changes.\n');
+    return;
   }
-  throw lastError;
+
+  const rows = [
+    ['Status', 'File', 'Original', ...tokens],
+    ...changes.map(change => [
+      change.status,
+      change.file,
+      describe(change.before?.size, change.after?.size),
+      ...tokens.map(token => describe(change.before?.variants[token], change.after?.variants[token]))
+    ])
+  ];
+  console.log(formatTable(rows));
+
+  const before = [...summarizeManifest(baseline).values()];
+  const after = [...summarizeManifest(current).values()];
+  const total = (records: SizeRecord[], token?: string) =>
+    records.reduce((sum, record) => sum + (token ? record.variants[token] ?? 0 : record.size), 0);
+  const totals = [
+    `original ${formatDelta(total(after) - total(before))}`,
+    ...tokens.map(token => `${token} ${formatDelta(total(after, token) - total(before, token))}`)
+  ];
+  console.log(`  Total: ${totals.join(', ')}\n`);
 }
 
 /**
- * Compresses a single file using Brotli and/or Gzip.
+ * File extensions and content codings of dictionary-compressed variants.
+ * Node.js has no Brotli shared-dictionary support, so only zstd has one.
  */
-function compressFile(
-  filePath: string, 
-  options: CompressionOptions
-): Promise<{
-  compressedFiles: number;
-  failedFiles: number;
-  totalOriginalSize: number;
-  totalCompressedSize: number;
-  brotliFiles?: number;
-  gzipFiles?: number;
-}> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const results = {
-        compressedFiles: 0,
-        failedFiles: 0,
-        totalOriginalSize: 0,
-        totalCompressedSize: 0,
-        brotliFiles: 0,
-        gzipFiles: 0
-      };
+const DICTIONARY_ENCODINGS: Partial<Record<Encoding, string>> = {
+  [CompressionType.ZSTD]: 'dcz'
+};
 
-      // Get original file size
-      const stats = fs.statSync(filePath);
-      results.totalOriginalSize = stats.size;
+/**
+ * Magic number that starts `dcz` streams, followed by the SHA-256 hash of
+ * the dictionary.
+ */
+const DICTIONARY_MAGIC = Buffer.from([0x5e, 0x2a, 0x4d, 0x18, 0x20, 0x00, 0x00, 0x00]);
 
-      // Compress with Brotli if requested
-      if (options.type === CompressionType.BROTLI || options.type === CompressionType.BOTH) {
-        try {
-          const brotliResult = await compressWithBrotli(filePath, options);
-          results.compressedFiles++;
-          results.totalCompressedSize += brotliResult.compressedSize;
-          results.brotliFiles = 1;
-        } catch (error) {
-          results.failedFiles++;
-          if (options.verbose) {
-            console.warn(`[vite-plugin-brotli-compress] Brotli compression failed for ${filePath}:`, error);
-          }
-        }
-      }
+let dictionarySupport: boolean | undefined;
 
-      // Compress with Gzip if requested
-      if (options.type === CompressionType.GZIP || options.type === CompressionType.BOTH) {
-        try {
-          const gzipResult = await compressWithGzip(filePath, options);
-          results.compressedFiles++;
-          results.totalCompressedSize += gzipResult.compressedSize;
-          results.gzipFiles = 1;
-        } catch (error) {
-          results.failedFiles++;
-          if (options.verbose) {
-            console.warn(`[vite-plugin-brotli-compress] Gzip compression failed for ${filePath}:`, error);
-          }
-        }
+/**
+ * Checks if this Node.js version compresses zstd with a custom dictionary.
+ * Older versions ignore the option, so a probe that decompresses without
+ * the dictionary must fail.
+ */
+function supportsDictionary(): boolean {
+  if (dictionarySupport === undefined) {
+    const dictionary = Buffer.from('vite-plugin-brotli-compress dictionary probe '.repeat(8));
+    try {
+      const compressed = zlib.zstdCompressSync(dictionary, { dictionary });
+      try {
+        zlib.zstdDecompressSync(compressed);
+        dictionarySupport = false;
+      } catch {
+        dictionarySupport = true;
       }
+    } catch {
+      dictionarySupport = false;
+    }
+  }
+  return dictionarySupport;
+}
 
-      // Delete original file if requested and at least one compression succeeded
-      if (options.deleteOriginal && results.compressedFiles > 0) {
-        try {
-          fs.unlinkSync(filePath);
-        } catch (error) {
-          if (options.verbose) {
-            console.warn(`[vite-plugin-brotli-compress] Failed to delete original file ${filePath}:`, error);
-          }
-        }
-      }
+/**
+ * Warns when this Node.js version can't write the zstd dictionary variants
+ * of the run. `resolveOptions` already warns when zstd isn't enabled at all.
+ */
+function warnUnsupportedDictionaryRuntime(encodings: Encoding[]): void {
+  if (encodings.includes(CompressionType.ZSTD) && !supportsDictionary()) {
+    console.warn(
+      `[vite-plugin-brotli-compress] zstd dictionary compression is not supported by Node.js ${process.versions.node}; ` +
+      'skipping .dcz variants'
+    );
+  }
+}
 
-      resolve(results);
-    } catch (error) {
-      reject(error);
+/**
+ * Lists every file below a directory.
+ */
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
     }
-  });
+  }
+  return files;
 }
 
 /**
- * Compresses a file using Brotli.
+ * Pairs hashed files with their predecessor in the previous build by stable
+ * name. Unchanged files and names that aren't unique are left out.
  */
-function compressWithBrotli(filePath: string, options: CompressionOptions): Promise<{compressedSize: number}> {
-  return new Promise((resolve, reject) => {
-    const compressStream = zlib.createBrotliCompress({
-      params: {
-        [zlib.constants.BROTLI_PARAM_QUALITY]: Math.min(Math.max(options.quality, 0), 11),
-      },
-    });
+function pairWithPreviousBuild(outDir: string, previousDir: string, files: string[]): Map<string, string> {
+  const pairs = new Map<string, string>();
+  if (!fs.existsSync(previousDir)) {
+    console.warn(`[vite-plugin-brotli-compress] Previous build not found: ${previousDir}`);
+    return pairs;
+  }
 
-    const readStream = fs.createReadStream(filePath);
-    const compressedPath = `${filePath}.br`;
-    const writeStream = fs.createWriteStream(compressedPath);
+  const previous = new Map<string, string | null>();
+  for (const filePath of listFiles(previousDir)) {
+    const relativePath = toOutDirPath(previousDir, filePath);
+    const name = getStableName(relativePath);
+    if (name !== relativePath) {
+      previous.set(name, previous.has(name) ? null : filePath);
+    }
+  }
 
-    let compressedSize = 0;
+  for (const filePath of files) {
+    const relativePath = toOutDirPath(outDir, filePath);
+    const previousPath = previous.get(getStableName(relativePath));
+    if (previousPath && toOutDirPath(previousDir, previousPath) !== relativePath) {
+      pairs.set(filePath, previousPath);
+    }
+  }
+  return pairs;
+}
 
-    writeStream.on('data', (chunk) => {
-      compressedSize += chunk.length;
-    });
+/**
+ * Formats a SHA-256 hash as a structured field byte sequence, as used by
+ * the `Available-Dictionary` header.
+ */
+function formatDictionaryHash(hash: Buffer): string {
+  return `:${hash.toString('base64')}:`;
+}
 
-    readStream.pipe(compressStream).pipe(writeStream);
+/**
+ * Writes the `.dcz` variant of a file, compressed with zstd using its
+ * previous version as dictionary.
+ */
+async function writeDictionaryVariants(
+  filePath: string,
+  dictionaryPath: string,
+  options: CompressionOptions,
+  results: FileCompressionResult
+): Promise<void> {
+  if (!options.encodings.includes(CompressionType.ZSTD) || !supportsDictionary()) return;
 
-    writeStream.on('finish', () => {
-      resolve({ compressedSize });
+  const source = fs.readFileSync(filePath);
+  const dictionary = fs.readFileSync(dictionaryPath);
+  const dictionaryHash = crypto.createHash('sha256').update(dictionary).digest();
+  results.dictionaryVariants = [];
+
+  try {
+    const zlibOptions: zlib.ZstdOptions = {
+      ...getZlibOptions(CompressionType.ZSTD, options, filePath, source.length),
+      dictionary
+    };
+    const compressed = await new Promise<Buffer>((resolve, reject) => {
+      zlib.zstdCompress(source, zlibOptions, (error, result) => error ? reject(error) : resolve(result));
     });
 
-    writeStream.on('error', reject);
-    readStream.on('error', reject);
-  });
+    const variantPath = `${filePath}.${DICTIONARY_ENCODINGS[CompressionType.ZSTD]}`;
+    const output = Buffer.concat([DICTIONARY_MAGIC, dictionaryHash, compressed]);
+    await writeVariant(filePath, variantPath, tempPath => fs.writeFileSync(tempPath, output));
+    results.dictionaryVariants.push({ encoding: CompressionType.ZSTD, path: variantPath, size: output.length });
+  } catch (error) {
+    results.failedFiles++;
+    results.errors.push(`zstd dictionary: ${getErrorMessage(error)}`);
+    if (options.verbose) {
+      console.warn(`[vite-plugin-brotli-compress] zstd dictionary compression failed for ${filePath}:`, error);
+    }
+  }
 }
 
 /**
- * Compresses a file using Gzip.
+ * Builds the `Use-As-Dictionary` header for a hashed asset, matching any
+ * future version of it. Returns undefined for files without a content hash.
  */
-function compressWithGzip(filePath: string, options: CompressionOptions): Promise<{compressedSize: number}> {
-  return new Promise((resolve, reject) => {
-    const compressStream = zlib.createGzip({
-      level: Math.min(Math.max(options.gzipLevel, 0), 9),
-    });
+function getUseAsDictionary(relativePath: string, base: string): string | undefined {
+  const pattern = relativePath.replace(/-([\w-]{8})(?=\.[^/]+$)/, (match, hash: string) => /[A-Z0-9]/.test(hash) ? '-*' : match);
+  if (pattern === relativePath) return undefined;
 
-    const readStream = fs.createReadStream(filePath);
-    const compressedPath = `${filePath}.gz`;
-    const writeStream = fs.createWriteStream(compressedPath);
+  return `match="${base.replace(/\/?$/, '/')}${pattern}"`;
+}
 
-    let compressedSize = 0;
+/**
+ * Writes the headers and variants needed to serve dictionary-compressed
+ * responses, keyed by path relative to the output directory.
+ */
+function writeDictionaryMetadata(
+  metadataPath: string,
+  outDir: string,
+  previousDir: string,
+  files: FileCompressionResult[],
+  dictionaries: Map<string, string>,
+  base: string = '/'
+): void {
+  const metadata: DictionaryMetadata = { version: 1, files: {} };
 
-    writeStream.on('data', (chunk) => {
-      compressedSize += chunk.length;
-    });
+  for (const file of files) {
+    const relativePath = toOutDirPath(outDir, file.filePath);
+    const useAsDictionary = getUseAsDictionary(relativePath, base);
+    if (!useAsDictionary) continue;
 
-    readStream.pipe(compressStream).pipe(writeStream);
+    const entry: DictionaryMetadataEntry = { useAsDictionary };
+    const dictionaryPath = dictionaries.get(file.filePath);
+    if (dictionaryPath) {
+      entry.dictionary = {
+        file: toOutDirPath(previousDir, dictionaryPath),
+        availableDictionary: formatDictionaryHash(crypto.createHash('sha256').update(fs.readFileSync(dictionaryPath)).digest()),
+        variants: Object.fromEntries((file.dictionaryVariants ?? []).map(variant => [
+          DICTIONARY_ENCODINGS[variant.encoding]!,
+          toOutDirPath(outDir, variant.path)
+        ]))
+      };
+    }
+    metadata.files[relativePath] = entry;
+  }
 
-    writeStream.on('finish', () => {
-      resolve({ compressedSize });
-    });
+  fs.writeFileSync(metadataPath, `${JSON.stringify(metadata, null, 2)}\n`);
+}
 
-    writeStream.on('error', reject);
-    readStream.on('error', reject);
-  });
+/**
+ * Returns the number of CPUs available to the process.
+ */
+function getAvailableParallelism(): number {
+  return typeof os.availableParallelism === 'function'
+    ? os.availableParallelism()
+    : Math.max(os.cpus().length, 1);
+}
+
+/**
+ * Runs tasks with at most `limit` in flight, starting the next as soon as one
+ * settles. Stops starting new tasks once the signal is aborted.
+ */
+async function runQueue<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runNext));
+  return results;
 }
 
 /**
- * Splits an array into chunks of specified size.
+ * Returns a file's size on disk, or 0 if it can't be read.
  */
-function chunkArray<T>(array: T[], chunkSize: number): T[][] {
-  const chunks: T[][] = [];
-  for (let i = 0; i < array.length; i += chunkSize) {
-    chunks.push(array.slice(i, i + chunkSize));
+function getFileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
   }
-  return chunks;
+}
+
+/**
+ * Orders files largest first so big files don't end up running last.
+ */
+function sortBySizeDescending(files: string[], sizeOf: (filePath: string) => number): string[] {
+  const sizes = new Map(files.map(filePath => [filePath, sizeOf(filePath)]));
+  return [...files].sort((a, b) => sizes.get(b)! - sizes.get(a)!);
 }
 
 /**
  * Logs compression results to the console.
  */
-function logCompressionResults(stats: CompressionStats, type: CompressionType): void {
+function logCompressionResults(stats: CompressionStats, encodings: Encoding[], compressors: CustomCompressor[] = []): void {
   console.log('\n[vite-plugin-brotli-compress] Compression Results:');
   console.log(`  Total files processed: ${stats.totalFiles}`);
   console.log(`  Successfully compressed: ${stats.compressedFiles}`);
   console.log(`  Skipped: ${stats.skippedFiles}`);
   console.log(`  Failed: ${stats.failedFiles}`);
+  if (stats.cachedFiles) {
+    console.log(`  Restored from cache: ${stats.cachedFiles}`);
+  }
   
-  if (type === CompressionType.BOTH) {
-    console.log(`  Brotli files: ${stats.brotliFiles || 0}`);
-    console.log(`  Gzip files: ${stats.gzipFiles || 0}`);
+  if (encodings.length > 1) {
+    for (const encoding of encodings) {
+      console.log(`  ${ENCODING_NAMES[encoding]} files: ${stats[ENCODING_STATS_KEYS[encoding]] || 0}`);
+    }
+  }
+
+  for (const [encoding, counts] of Object.entries(stats.tunedLevels ?? {}) as [Encoding, Record<number, number>][]) {
+    const levels = Object.entries(counts).map(([level, count]) => `${level} (${count})`).join(', ');
+    console.log(`  ${ENCODING_NAMES[encoding]} levels chosen: ${levels}`);
   }
   
   console.log(`  Original size: ${formatBytes(stats.totalOriginalSize)}`);
@@ -716,20 +4382,51 @@ function logCompressionResults(stats: CompressionStats, type: CompressionType):
   console.log(`  Compression ratio: ${stats.compressionRatio.toFixed(2)}%`);
   console.log(`  Time elapsed: ${stats.timeElapsed}ms`);
   
-  const compressionType = type === CompressionType.BOTH ? 'Brotli and Gzip' : 
-                         type === CompressionType.GZIP ? 'Gzip' : 'Brotli';
-  console.log(`  ✨ ${compressionType} compression completed!\n`);
+  console.log(`  ✨ ${describeEncodings(encodings, compressors)} compression completed!\n`);
 }
 
 /**
- * Formats bytes into human-readable format.
+ * Wraps the onProgress callback to also draw a live progress bar when
+ * logging verbosely to a TTY.
  */
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+function createProgressReporter(
+  settings: ResolvedOptions,
+  outDir: string
+): ((progress: CompressionProgress) => void) | undefined {
+  const { onProgress, verbose } = settings;
+  const stream = process.stdout;
+  if (!verbose || !stream.isTTY) return onProgress;
+
+  const barWidth = 20;
+  return progress => {
+    onProgress?.(progress);
+
+    const filled = Math.round((progress.percentage / 100) * barWidth);
+    const bar = `${'█'.repeat(filled)}${'░'.repeat(barWidth - filled)}`;
+    const line = `[vite-plugin-brotli-compress] ${bar} ${progress.currentIndex}/${progress.totalFiles} ` +
+      `${toOutDirPath(outDir, progress.currentFile)}`;
+
+    // Redraw in place, then clear the line once every file is done
+    stream.write(`\r\x1b[K${line.slice(0, (stream.columns || 80) - 1)}`);
+    if (progress.currentIndex === progress.totalFiles) {
+      stream.write('\r\x1b[K');
+    }
+  };
+}
+
+/**
+ * Formats a size difference with an explicit sign, e.g. "+1.5 KB".
+ */
+function formatDelta(bytes: number): string {
+  return `${bytes < 0 ? '-' : '+'}${formatBytes(Math.abs(bytes))}`;
+}
+
+/**
+ * Formats rows of cells as an indented table with padded columns.
+ */
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows
+    .map(row => `  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`)
+    .join('\n');
 }
\ No newline at end of file
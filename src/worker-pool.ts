@@ -0,0 +1,176 @@
+/**
+ * Worker threads that run zlib compression off the main thread.
+ */
+import { Transform } from 'stream';
+import { Worker } from 'worker_threads';
+import { createZopfli } from './zopfli';
+
+/**
+ * Serializable zlib options accepted by every encoder, safe to post to worker threads.
+ */
+export interface EncoderOptions {
+  level?: number;
+  params?: Record<number, number>;
+  /** Gzip uses the Zopfli-style encoder with this many iterations when set */
+  iterations?: number;
+}
+
+/**
+ * Source of the compression worker. Workers use the synchronous zlib API so
+ * the work runs on the worker's own thread instead of the shared libuv pool.
+ * The Zopfli encoder is self-contained, so its source is inlined.
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+const zlib = require('zlib');
+const { zopfliGzip } = (${createZopfli.toString()})();
+
+parentPort.on('message', ({ id, encoding, options, input }) => {
+  try {
+    const buffer = Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+    let output;
+    if (encoding === 'gzip') {
+      output = options.iterations === undefined ? zlib.gzipSync(buffer, options) : zopfliGzip(buffer, options.iterations);
+    } else if (encoding === 'zstd') {
+      if (typeof zlib.zstdCompressSync !== 'function') {
+        throw new Error('Zstandard compression requires Node.js 22.15.0 or later');
+      }
+      output = zlib.zstdCompressSync(buffer, options);
+    } else {
+      output = zlib.brotliCompressSync(buffer, options);
+    }
+    parentPort.postMessage({ id, output });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+/**
+ * A pool of worker threads that compress buffers.
+ */
+export interface WorkerPool {
+  /** Compresses a buffer on the next free worker. */
+  run(encoding: string, options: EncoderOptions, input: Buffer): Promise<Buffer>;
+  /** Creates a transform stream that buffers its input and compresses it on a worker. */
+  createStream(encoding: string, options: EncoderOptions): Transform;
+  /** Stops all workers, rejecting queued and running jobs. */
+  terminate(): Promise<void>;
+}
+
+/**
+ * Creates a pool of compression worker threads. Jobs are queued until a worker is free.
+ */
+export function createWorkerPool(size: number): WorkerPool {
+  interface Job {
+    id: number;
+    encoding: string;
+    options: EncoderOptions;
+    input: Buffer;
+    resolve: (output: Buffer) => void;
+    reject: (error: Error) => void;
+  }
+
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, Job>();
+  const queue: Job[] = [];
+  let nextId = 0;
+  let terminated = false;
+
+  const dispatch = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop()!;
+      const job = queue.shift()!;
+      busy.set(worker, job);
+      worker.postMessage({ id: job.id, encoding: job.encoding, options: job.options, input: job.input });
+    }
+  };
+
+  const spawn = () => {
+    const worker = new Worker(WORKER_SOURCE, { eval: true });
+
+    worker.on('message', (message: { id: number; output?: Uint8Array; error?: string }) => {
+      const job = busy.get(worker);
+      busy.delete(worker);
+      idle.push(worker);
+
+      if (job) {
+        if (message.error !== undefined) {
+          job.reject(new Error(message.error));
+        } else {
+          const output = message.output!;
+          job.resolve(Buffer.from(output.buffer, output.byteOffset, output.byteLength));
+        }
+      }
+      dispatch();
+    });
+
+    // Replace workers that crash so the pool keeps its size.
+    const onFailure = (error: Error) => {
+      const job = busy.get(worker);
+      busy.delete(worker);
+      const index = idle.indexOf(worker);
+      if (index !== -1) idle.splice(index, 1);
+      job?.reject(error);
+
+      if (!terminated) {
+        spawn();
+        dispatch();
+      }
+    };
+    worker.on('error', onFailure);
+    worker.on('exit', (code) => {
+      if (!terminated && (busy.has(worker) || idle.includes(worker))) {
+        onFailure(new Error(`Compression worker exited with code ${code}`));
+      }
+    });
+
+    idle.push(worker);
+  };
+
+  for (let i = 0; i < Math.max(size, 1); i++) {
+    spawn();
+  }
+
+  const run = (encoding: string, options: EncoderOptions, input: Buffer): Promise<Buffer> => {
+    if (terminated) {
+      return Promise.reject(new Error('Compression worker pool has been terminated'));
+    }
+    return new Promise((resolve, reject) => {
+      queue.push({ id: nextId++, encoding, options, input, resolve, reject });
+      dispatch();
+    });
+  };
+
+  return {
+    run,
+
+    createStream(encoding, options) {
+      const chunks: Buffer[] = [];
+      return new Transform({
+        transform(chunk: Buffer, _chunkEncoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+        flush(callback) {
+          run(encoding, options, Buffer.concat(chunks)).then(
+            output => callback(null, output),
+            error => callback(error)
+          );
+        }
+      });
+    },
+
+    async terminate() {
+      terminated = true;
+      // Running jobs are dropped with their workers, so settle them here too
+      for (const job of [...queue.splice(0), ...busy.values()]) {
+        job.reject(new Error('Compression worker pool has been terminated'));
+      }
+      const workers = [...idle, ...busy.keys()];
+      idle.length = 0;
+      busy.clear();
+      await Promise.all(workers.map(worker => worker.terminate()));
+    }
+  };
+}